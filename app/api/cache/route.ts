@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { GEMINI_API_BASE_URL } from '@/constant/urls'
+import { handleError } from '../utils'
+import { getRandomKey } from '@/utils/common'
+
+export const runtime = 'edge'
+export const preferredRegion = ['cle1', 'iad1', 'pdx1', 'sfo1', 'sin1', 'syd1', 'hnd1', 'kix1']
+
+const geminiApiKey = process.env.GEMINI_API_KEY as string
+const geminiApiBaseUrl = process.env.GEMINI_API_BASE_URL as string
+
+async function handler(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams
+  const id = searchParams.get('id')
+  searchParams.delete('id')
+  searchParams.delete('token')
+  // The cache is only visible to the project that created it, so the first key is always used
+  searchParams.set('key', getRandomKey(geminiApiKey, true))
+
+  try {
+    let url = `${geminiApiBaseUrl || GEMINI_API_BASE_URL}/v1beta/cachedContents`
+    if (id) url += `/${id}`
+    const response = await fetch(`${url}?${searchParams.toString()}`, {
+      method: req.method,
+      headers: {
+        'Content-Type': req.headers.get('Content-Type') || 'application/json',
+      },
+      body: req.method === 'POST' || req.method === 'PATCH' ? await req.text() : undefined,
+    })
+    return new NextResponse(response.body, response)
+  } catch (error) {
+    if (error instanceof Error) {
+      return handleError(error.message)
+    }
+  }
+}
+
+export { handler as GET, handler as POST, handler as PATCH, handler as DELETE }
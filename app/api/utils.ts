@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server'
+import { GEMINI_API_BASE_URL } from '@/constant/urls'
 import { generateSignature, generateUTCTimestamp, decodeToken } from '@/utils/signature'
 
 const password = (process.env.ACCESS_PASSWORD as string) || ''
+const geminiApiBaseUrl = process.env.GEMINI_API_BASE_URL as string
 
 export function checkToken(token: string): boolean {
   if (password !== '') {
@@ -21,3 +23,23 @@ export const handleError = (message: string) => {
   console.error(message)
   return NextResponse.json({ code: 500, message }, { status: 500 })
 }
+
+/**
+ * Send a request to the Gemini api with the given key
+ * @param model model name and method, e.g. `gemini-2.0-flash:streamGenerateContent`
+ */
+export async function fetchGemini(model: string, body: string, apiKey: string, headers: Record<string, string> = {}) {
+  let url = `${geminiApiBaseUrl || GEMINI_API_BASE_URL}/v1beta/models/${model}`
+  // Only the streaming requests are sent as server-sent events, e.g. the embedding requests are not
+  if (model.endsWith(':streamGenerateContent')) url += '?alt=sse'
+  return await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-client': 'genai-js/0.21.0',
+      ...headers,
+      'x-goog-api-key': apiKey,
+    },
+    body,
+  })
+}
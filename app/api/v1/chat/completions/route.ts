@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { fetchGemini } from '../../../utils'
+import { convertRequest, convertResponse, convertStream, handleOpenAIError, type OpenAIChatRequest } from '../../utils'
+import { ErrorType } from '@/constant/errors'
+import { getRandomKey } from '@/utils/common'
+
+export const runtime = 'edge'
+export const preferredRegion = ['cle1', 'iad1', 'pdx1', 'sfo1', 'sin1', 'syd1', 'hnd1', 'kix1']
+
+const geminiApiKey = process.env.GEMINI_API_KEY as string
+const mode = process.env.NEXT_PUBLIC_BUILD_MODE
+
+export async function POST(req: NextRequest) {
+  if (mode === 'export') return new NextResponse('Not available under static deployment')
+
+  if (!geminiApiKey) return handleOpenAIError(ErrorType.NoGeminiKey)
+
+  try {
+    const body: OpenAIChatRequest | null = await req.json().catch(() => null)
+    if (!body) return handleOpenAIError('Invalid JSON body', 400, 'invalid_request_error')
+    if (!body.model || !body.messages) return handleOpenAIError(ErrorType.MissingParam, 400, 'invalid_request_error')
+    const model = String(body.model).replace(/^models\//, '')
+    // The model is a part of the upstream path, which is called with the server key
+    if (!/^[\w.-]+$/.test(model)) return handleOpenAIError(`Invalid model: ${model}`, 400, 'invalid_request_error')
+    const request = await convertRequest(body)
+    const method = body.stream ? 'streamGenerateContent' : 'generateContent'
+    const response = await fetchGemini(`${model}:${method}`, JSON.stringify(request), getRandomKey(geminiApiKey))
+    if (!response.ok || !response.body) {
+      const result = await response.json().catch(() => ({}))
+      return handleOpenAIError(result.error?.message || response.statusText, response.status, result.error?.status)
+    }
+    if (body.stream) {
+      return new NextResponse(convertStream(response.body, model, body.stream_options?.include_usage), {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        },
+      })
+    }
+    return NextResponse.json(convertResponse(await response.json(), model))
+  } catch (error) {
+    return handleOpenAIError(error instanceof Error ? error.message : String(error))
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { handleOpenAIError } from '../utils'
+import { GEMINI_API_BASE_URL } from '@/constant/urls'
+import { ErrorType } from '@/constant/errors'
+import { getRandomKey } from '@/utils/common'
+
+const geminiApiKey = process.env.GEMINI_API_KEY as string
+const geminiApiBaseUrl = process.env.GEMINI_API_BASE_URL as string
+const mode = process.env.NEXT_PUBLIC_BUILD_MODE
+
+export const runtime = 'edge'
+export const preferredRegion = ['cle1', 'iad1', 'pdx1', 'sfo1', 'sin1', 'syd1', 'hnd1', 'kix1']
+
+export async function GET() {
+  if (mode === 'export') return new NextResponse('Not available under static deployment')
+
+  if (!geminiApiKey) return handleOpenAIError(ErrorType.NoGeminiKey)
+
+  try {
+    const apiBaseUrl = geminiApiBaseUrl || GEMINI_API_BASE_URL
+    const response = await fetch(`${apiBaseUrl}/v1beta/models?pageSize=1000&key=${getRandomKey(geminiApiKey)}`)
+    const result = await response.json()
+    if (!response.ok) return handleOpenAIError(result.error?.message || response.statusText, response.status)
+    const models: Model[] = result.models || []
+    return NextResponse.json({
+      object: 'list',
+      // Only the models that can chat are listed
+      data: models
+        .filter((item) => item.supportedGenerationMethods.includes('generateContent'))
+        .map((item) => ({ id: item.name.replace('models/', ''), object: 'model', created: 0, owned_by: 'google' })),
+    })
+  } catch (error) {
+    return handleOpenAIError(error instanceof Error ? error.message : String(error))
+  }
+}
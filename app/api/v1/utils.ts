@@ -0,0 +1,392 @@
+import { NextResponse } from 'next/server'
+import type { Content, Part, GenerateContentResponse } from '@xiangfa/generative-ai'
+import { customAlphabet } from 'nanoid'
+import { isString, isPlainObject, omit } from 'lodash-es'
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: string } }
+
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool'
+  content?: string | OpenAIContentPart[] | null
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+}
+
+type OpenAIToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } }
+
+export interface OpenAIChatRequest {
+  model: string
+  messages: OpenAIMessage[]
+  stream?: boolean
+  stream_options?: { include_usage?: boolean }
+  temperature?: number
+  top_p?: number
+  n?: number
+  max_tokens?: number
+  max_completion_tokens?: number
+  stop?: string | string[]
+  response_format?: { type: 'text' | 'json_object' | 'json_schema'; json_schema?: { schema?: object } }
+  tools?: Array<{ type: 'function'; function: { name: string; description?: string; parameters?: object } }>
+  tool_choice?: OpenAIToolChoice
+}
+
+interface GeminiRequest {
+  contents: Content[]
+  systemInstruction?: Content
+  tools?: Array<{ functionDeclarations: object[] }>
+  toolConfig?: { functionCallingConfig: { mode: string; allowedFunctionNames?: string[] } }
+  generationConfig: Record<string, unknown>
+}
+
+type GeminiCandidate = NonNullable<GenerateContentResponse['candidates']>[number]
+
+// Keywords of the JSON schema that the Gemini api does not accept
+const unsupportedSchemaKeys = ['$schema', 'additionalProperties', 'strict']
+
+const blockedFinishReasons = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']
+
+// The remote images are fetched by the server, the size and the time are limited
+const maxImageSize = 20 * 1024 * 1024
+const imageFetchTimeout = 10000
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 24)
+
+export function createCompletionId() {
+  return `chatcmpl-${nanoid()}`
+}
+
+export function handleOpenAIError(message: string, status = 500, type = 'api_error') {
+  console.error(message)
+  return NextResponse.json({ error: { message, type, code: status } }, { status })
+}
+
+function cleanSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(cleanSchema)
+  if (!isPlainObject(schema)) return schema
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(omit(schema as object, unsupportedSchemaKeys))) {
+    result[key] = cleanSchema(value)
+  }
+  return result
+}
+
+// The private, loopback and link-local addresses of the server network
+const privateHostPatterns = [
+  /^localhost$/,
+  /\.(localhost|local|internal)$/,
+  /^0\./,
+  /^127\./,
+  /^10\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^169\.254\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+  /^\[(::1?|f[cd][0-9a-f]*:.*|fe[89ab][0-9a-f]*:.*|::ffff:.*)\]$/,
+]
+
+function isPublicImageUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url)
+    if (protocol !== 'http:' && protocol !== 'https:') return false
+    return !privateHostPatterns.some((pattern) => pattern.test(hostname))
+  } catch {
+    return false
+  }
+}
+
+async function readImage(response: Response): Promise<Uint8Array> {
+  const contentLength = Number(response.headers.get('Content-Length') || '0')
+  if (contentLength > maxImageSize) throw new Error('The image is too large')
+  if (!response.body) throw new Error('The image is empty')
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > maxImageSize) {
+      reader.cancel()
+      throw new Error('The image is too large')
+    }
+    chunks.push(value)
+  }
+  const data = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.length
+  }
+  return data
+}
+
+async function convertImageUrl(url: string): Promise<Part> {
+  if (url.startsWith('data:')) {
+    const [mimeType, data] = url.substring(5).split(';base64,')
+    return { inlineData: { mimeType, data } }
+  }
+  // The api only reads the uploaded files, so the remote images are fetched by the server and sent inline
+  if (!isPublicImageUrl(url)) throw new Error(`Unsupported image url: ${url}`)
+  // The redirects are not followed, they could lead to the private addresses
+  const response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(imageFetchTimeout) })
+  if (response.type === 'opaqueredirect' || (response.status >= 300 && response.status < 400)) {
+    throw new Error(`The redirected image urls are not supported: ${url}`)
+  }
+  if (!response.ok) throw new Error(`Unable to fetch the image: ${url}`)
+  const mimeType = response.headers.get('Content-Type')?.split(';')[0] || ''
+  if (!mimeType.startsWith('image/')) throw new Error(`Not an image: ${url}`)
+  const data = Buffer.from(await readImage(response)).toString('base64')
+  return { inlineData: { mimeType, data } }
+}
+
+async function convertContent(content: OpenAIMessage['content']): Promise<Part[]> {
+  if (!content) return []
+  if (isString(content)) return [{ text: content }]
+  const parts: Part[] = []
+  for (const item of content) {
+    if (item.type === 'text') {
+      parts.push({ text: item.text })
+    } else if (item.type === 'image_url') {
+      parts.push(await convertImageUrl(item.image_url.url))
+    }
+  }
+  return parts
+}
+
+function getText(content: OpenAIMessage['content']) {
+  if (!content) return ''
+  if (isString(content)) return content
+  return content.map((item) => (item.type === 'text' ? item.text : '')).join('')
+}
+
+function parseArguments(text: string): object {
+  try {
+    const result = JSON.parse(text)
+    return isPlainObject(result) ? result : { result }
+  } catch {
+    return { content: text }
+  }
+}
+
+/**
+ * Convert an OpenAI chat completion request to a Gemini generate content request
+ */
+export async function convertRequest(request: OpenAIChatRequest): Promise<GeminiRequest> {
+  const systemTexts: string[] = []
+  const contents: Content[] = []
+  // The tool messages only carry the call id, the function name is taken from the call
+  const toolNames: Record<string, string> = {}
+
+  for (const message of request.messages) {
+    let content: Content
+    if (message.role === 'system' || message.role === 'developer') {
+      systemTexts.push(getText(message.content))
+      continue
+    } else if (message.role === 'assistant') {
+      const parts = await convertContent(message.content)
+      message.tool_calls?.forEach((call) => {
+        toolNames[call.id] = call.function.name
+        parts.push({ functionCall: { name: call.function.name, args: parseArguments(call.function.arguments) } })
+      })
+      content = { role: 'model', parts }
+    } else if (message.role === 'tool') {
+      const name = toolNames[message.tool_call_id || ''] || message.tool_call_id || ''
+      content = {
+        role: 'user',
+        parts: [{ functionResponse: { name, response: parseArguments(getText(message.content)) } }],
+      }
+    } else {
+      content = { role: 'user', parts: await convertContent(message.content) }
+    }
+    if (content.parts.length === 0) continue
+    // The responses of the parallel calls are sent together
+    const lastContent = contents[contents.length - 1]
+    if (lastContent && lastContent.role === content.role) {
+      lastContent.parts = [...lastContent.parts, ...content.parts]
+    } else {
+      contents.push(content)
+    }
+  }
+
+  const generationConfig: GeminiRequest['generationConfig'] = {}
+  if (request.temperature !== undefined) generationConfig.temperature = request.temperature
+  if (request.top_p !== undefined) generationConfig.topP = request.top_p
+  if (request.n !== undefined) generationConfig.candidateCount = request.n
+  const maxTokens = request.max_completion_tokens || request.max_tokens
+  if (maxTokens) generationConfig.maxOutputTokens = maxTokens
+  if (request.stop) generationConfig.stopSequences = isString(request.stop) ? [request.stop] : request.stop
+  if (request.response_format && request.response_format.type !== 'text') {
+    generationConfig.responseMimeType = 'application/json'
+    const schema = request.response_format.json_schema?.schema
+    if (schema) generationConfig.responseSchema = cleanSchema(schema)
+  }
+
+  const result: GeminiRequest = { contents, generationConfig }
+  if (systemTexts.length > 0) result.systemInstruction = { role: 'user', parts: [{ text: systemTexts.join('\n\n') }] }
+  if (request.tools && request.tools.length > 0) {
+    result.tools = [
+      {
+        functionDeclarations: request.tools.map(({ function: declaration }) => {
+          return declaration.parameters
+            ? { ...declaration, parameters: cleanSchema(declaration.parameters) }
+            : declaration
+        }),
+      },
+    ]
+  }
+  const toolChoice = request.tool_choice
+  if (toolChoice === 'none') {
+    result.toolConfig = { functionCallingConfig: { mode: 'NONE' } }
+  } else if (toolChoice === 'required') {
+    result.toolConfig = { functionCallingConfig: { mode: 'ANY' } }
+  } else if (toolChoice && !isString(toolChoice)) {
+    result.toolConfig = { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] } }
+  }
+  return result
+}
+
+function convertFinishReason(reason: string | undefined, hasToolCalls: boolean) {
+  if (!reason) return null
+  if (hasToolCalls) return 'tool_calls'
+  if (reason === 'MAX_TOKENS') return 'length'
+  if (blockedFinishReasons.includes(reason)) return 'content_filter'
+  return 'stop'
+}
+
+function convertCandidate(candidate: GeminiCandidate) {
+  let text = ''
+  const toolCalls: OpenAIToolCall[] = []
+  for (const part of candidate.content?.parts || []) {
+    // The thoughts are not part of the answer
+    if ('thought' in part && part.thought) continue
+    if (part.text) text += part.text
+    if (part.functionCall) {
+      toolCalls.push({
+        id: `call_${nanoid()}`,
+        type: 'function',
+        function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args || {}) },
+      })
+    }
+  }
+  return { text, toolCalls }
+}
+
+export function convertUsage(usage: GenerateContentResponse['usageMetadata']) {
+  if (!usage) return
+  return {
+    prompt_tokens: usage.promptTokenCount || 0,
+    completion_tokens: usage.totalTokenCount - (usage.promptTokenCount || 0),
+    total_tokens: usage.totalTokenCount,
+  }
+}
+
+/**
+ * Convert a Gemini generate content response to an OpenAI chat completion
+ */
+export function convertResponse(response: GenerateContentResponse, model: string) {
+  const candidates = response.candidates || []
+  const choices = candidates.map((candidate, idx) => {
+    const { text, toolCalls } = convertCandidate(candidate)
+    return {
+      index: candidate.index ?? idx,
+      message: {
+        role: 'assistant',
+        content: text === '' && toolCalls.length > 0 ? null : text,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: convertFinishReason(candidate.finishReason || 'STOP', toolCalls.length > 0),
+    }
+  })
+  // The prompt is blocked before any answer is generated
+  if (choices.length === 0 && response.promptFeedback?.blockReason) {
+    choices.push({ index: 0, message: { role: 'assistant', content: null }, finish_reason: 'content_filter' })
+  }
+  return {
+    id: createCompletionId(),
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices,
+    usage: convertUsage(response.usageMetadata),
+  }
+}
+
+async function* readServerSentEvents(readable: ReadableStream<Uint8Array>) {
+  const reader = readable.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.substring(5).trim()
+    }
+  }
+  if (buffer.startsWith('data:')) yield buffer.substring(5).trim()
+}
+
+/**
+ * Convert the Gemini server-sent events to the OpenAI chat completion chunks
+ */
+export function convertStream(readable: ReadableStream<Uint8Array>, model: string, includeUsage = false) {
+  const encoder = new TextEncoder()
+  const id = createCompletionId()
+  const created = Math.floor(Date.now() / 1000)
+  const createChunk = (choices: object[], usage?: object) => {
+    const chunk = { id, object: 'chat.completion.chunk', created, model, choices, ...(usage ? { usage } : {}) }
+    return encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`)
+  }
+
+  return new ReadableStream({
+    async start(controller) {
+      // The tool calls are numbered across the chunks of each choice
+      const toolCallCounts: Record<number, number> = {}
+      let usage: GenerateContentResponse['usageMetadata']
+      try {
+        for await (const data of readServerSentEvents(readable)) {
+          if (data === '') continue
+          const response: GenerateContentResponse = JSON.parse(data)
+          if (response.usageMetadata) usage = response.usageMetadata
+          if (!response.candidates && response.promptFeedback?.blockReason) {
+            controller.enqueue(createChunk([{ index: 0, delta: {}, finish_reason: 'content_filter' }]))
+            continue
+          }
+          const choices = (response.candidates || []).map((candidate, idx) => {
+            const index = candidate.index ?? idx
+            const { text, toolCalls } = convertCandidate(candidate)
+            const delta: Record<string, unknown> = { role: 'assistant' }
+            if (text !== '') delta.content = text
+            if (toolCalls.length > 0) {
+              const offset = toolCallCounts[index] || 0
+              toolCallCounts[index] = offset + toolCalls.length
+              delta.tool_calls = toolCalls.map((call, callIndex) => ({ index: offset + callIndex, ...call }))
+            }
+            return {
+              index,
+              delta,
+              finish_reason: convertFinishReason(candidate.finishReason, (toolCallCounts[index] || 0) > 0),
+            }
+          })
+          if (choices.length > 0) controller.enqueue(createChunk(choices))
+        }
+        if (includeUsage && usage) controller.enqueue(createChunk([], convertUsage(usage)))
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+      } catch (error) {
+        controller.error(error)
+        return
+      }
+      controller.close()
+    },
+  })
+}
@@ -13,37 +13,89 @@ import {
   Github,
   PanelLeftOpen,
   PanelLeftClose,
+  SlidersHorizontal,
+  WifiOff,
 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
+import { useShallow } from 'zustand/react/shallow'
 import ThemeToggle from '@/components/ThemeToggle'
 import { useSidebar } from '@/components/ui/sidebar'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { ToastAction } from '@/components/ui/toast'
 import { useToast } from '@/components/ui/use-toast'
 import Button from '@/components/Button'
 import { useMessageStore } from '@/store/chat'
+import { useConversationStore } from '@/store/conversation'
 import { useAttachmentStore } from '@/store/attachment'
 import { useSettingStore, useEnvStore } from '@/store/setting'
 import { usePluginStore } from '@/store/plugin'
-import { pluginHandle } from '@/plugins'
+import { useModelStore } from '@/store/model'
+import { useOutboxStore } from '@/store/outbox'
+import { pluginHandle, officialPlugins } from '@/plugins'
 import i18n from '@/utils/i18n'
 import chat, { type RequestProps } from '@/utils/chat'
-import { summarizePrompt, getVoiceModelPrompt, getSummaryPrompt, getTalkAudioPrompt } from '@/utils/prompt'
+import {
+  summarizePrompt,
+  getVoiceModelPrompt,
+  getTalkAudioPrompt,
+  getContinuePrompt,
+  getKnowledgePrompt,
+  findTextPart,
+} from '@/utils/prompt'
 import AudioStream from '@/utils/AudioStream'
 import PromiseQueue from '@/utils/PromiseQueue'
 import { textStream, simpleTextStream } from '@/utils/textStream'
 import { encodeToken } from '@/utils/signature'
 import type { FileManagerOptions } from '@/utils/FileManager'
+import type { CompareAnswer } from '@/components/CompareAnswers'
 import { fileUpload, imageUpload } from '@/utils/upload'
-import { findOperationById } from '@/utils/plugin'
+import { findOperationById, parsePlugin } from '@/utils/plugin'
+import { parseResponseSchema, checkStructuredOutput } from '@/utils/schema'
+import { isCacheAvailable } from '@/utils/contextCache'
+import {
+  getDefaultConversationSetting,
+  diffConversationSetting,
+  isCustomSetting,
+  conversationSettingKeys,
+} from '@/utils/setting'
+import { getMemoryStrategy, type MemoryContext } from '@/utils/memory'
+import { isUserMemoryActive, getUserMemoryInstruction, scanUserMemories } from '@/utils/userMemory'
+import { retrieveKnowledge } from '@/utils/knowledge'
+import { getTokenBudget, estimateTokens, estimateMediaTokens, estimateMessagesTokens } from '@/utils/tokenizer'
 import { generateImages, type ImageGenerationRequest } from '@/utils/generateImages'
-import { detectLanguage, formatTime, readFileAsDataURL, base64ToBlob, isOfficeFile } from '@/utils/common'
+import { trashClearedConversation, restoreTrashItems } from '@/utils/trash'
+import {
+  detectLanguage,
+  formatTime,
+  readFileAsDataURL,
+  base64ToBlob,
+  isOfficeFile,
+  getRandomKey,
+  hasUploadFiles,
+  isThoughtPart,
+} from '@/utils/common'
+import { parseUsageMetadata, mergeUsage } from '@/utils/usage'
+import { supportThinkingConfig } from '@/utils/models'
+import { blockedFinishReasons } from '@/utils/safety'
+import { isOffline, addToOutbox, getNextOutboxMessage, onOutboxSync } from '@/utils/outbox'
 import { cn } from '@/utils'
 import { GEMINI_API_BASE_URL } from '@/constant/urls'
 import { OldVisionModel, OldTextModel } from '@/constant/model'
 import mimeType from '@/constant/attachment'
 import { customAlphabet } from 'nanoid'
-import { isFunction, findIndex, isUndefined, entries, flatten, isEmpty } from 'lodash-es'
+import {
+  isFunction,
+  find,
+  findIndex,
+  findLastIndex,
+  isUndefined,
+  entries,
+  flatten,
+  isEmpty,
+  pick,
+  omit,
+} from 'lodash-es'
 import type { OpenAPIV3_1 } from 'openapi-types'
 
 interface AnswerParams {
@@ -57,22 +109,116 @@ interface AnswerParams {
   ) => void
   onFunctionCall?: (functionCalls: FunctionCall[]) => void
   onError?: (error: string, code?: number) => void
+  // Search the knowledge bases of the conversation for the question
+  retrieval?: boolean
+  // Overrides the safety level of the conversation for this answer
+  safety?: string
+  // Only send the messages and the generation settings, e.g. for the summary
+  plain?: boolean
+}
+
+interface RequestOptions {
+  safety?: string
+  plain?: boolean
+  // The compare answers do not handle the function calls
+  withoutTools?: boolean
 }
 
 const TEXTAREA_DEFAULT_HEIGHT = 30
+
+// The key is picked here instead of in the request, so that the usage can be grouped by key
+function setRequestCredentials(config: RequestProps) {
+  const { apiKey, apiProxy, password } = useSettingStore.getState()
+  if (apiKey !== '') {
+    config.apiKey = getRandomKey(apiKey, hasUploadFiles(config.messages) || !!config.cachedContent)
+    config.baseUrl = apiProxy || GEMINI_API_BASE_URL
+  } else {
+    config.apiKey = encodeToken(password)
+    config.baseUrl = '/api/google'
+  }
+  return config
+}
 const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
 
 const MessageItem = dynamic(() => import('@/components/MessageItem'))
 const ErrorMessageItem = dynamic(() => import('@/components/ErrorMessageItem'))
+const PendingMessage = dynamic(() => import('@/components/PendingMessage'))
 const AssistantRecommend = dynamic(() => import('@/components/AssistantRecommend'))
 const SystemInstruction = dynamic(() => import('@/components/SystemInstruction'))
 const Setting = dynamic(() => import('@/components/Setting'))
 const FileUploader = dynamic(() => import('@/components/FileUploader'))
 const AttachmentArea = dynamic(() => import('@/components/AttachmentArea'))
 const PluginList = dynamic(() => import('@/components/PluginList'))
+const StructuredOutput = dynamic(() => import('@/components/StructuredOutput'))
+const ContextCache = dynamic(() => import('@/components/ContextCache'))
 const ModelSelect = dynamic(() => import('@/components/ModelSelect'))
 const TalkWithVoice = dynamic(() => import('@/components/TalkWithVoice'))
 const MultimodalLive = dynamic(() => import('@/components/MultimodalLive'))
+const CompareAnswers = dynamic(() => import('@/components/CompareAnswers'))
+const CompareModelSelect = dynamic(() => import('@/components/CompareModelSelect'))
+const ContextMeter = dynamic(() => import('@/components/ContextMeter'))
+const ConversationSetting = dynamic(() => import('@/components/ConversationSetting'))
+const UserMemory = dynamic(() => import('@/components/UserMemory'))
+
+function getConversationSetting() {
+  const { tools } = usePluginStore.getState()
+  const { setting } = useMessageStore.getState()
+  return { ...getDefaultConversationSetting(useSettingStore.getState(), tools), ...setting }
+}
+
+function getMemoryContext(model: string): MemoryContext {
+  const { summary, systemInstruction } = useMessageStore.getState()
+  const { memoryWindow, userMemory } = getConversationSetting()
+  // The instructions are sent with every request, so they take their share of the budget
+  let instructionTokens = estimateTokens(systemInstruction)
+  if (isUserMemoryActive(userMemory)) instructionTokens += estimateTokens(getUserMemoryInstruction())
+  const tokenBudget = Math.max(getModelTokenBudget(model) - instructionTokens, 0)
+  return { summary, tokenBudget, windowSize: memoryWindow }
+}
+
+// Every request builds its history with the memory strategy of the conversation, so it stays within the budget
+function buildHistory(messages: Message[], model: string) {
+  const { memoryStrategy } = getConversationSetting()
+  return getMemoryStrategy(memoryStrategy).buildHistory(messages, getMemoryContext(model))
+}
+
+// The plugins of the conversation, the experimental thinking models and the lite models do not support the tools
+function getRequestTools(model: string) {
+  const { tools: defaultTools, installed } = usePluginStore.getState()
+  const { setting } = useMessageStore.getState()
+  if (model.includes('lite')) return []
+  if (model.includes('thinking') && !supportThinkingConfig(model, useModelStore.getState().models)) return []
+  if (!setting.plugins) return defaultTools
+  return flatten(
+    setting.plugins.map((id) => {
+      const manifest = officialPlugins[id] || installed[id]
+      return manifest ? parsePlugin(id, manifest) : []
+    }),
+  )
+}
+
+// The voice prompt and the user memories are added to the system instruction of the conversation
+function getRequestInstruction(systemInstruction: string, talkMode: 'chat' | 'voice') {
+  let instruction = talkMode === 'voice' ? `${getVoiceModelPrompt()}\n\n${systemInstruction}` : systemInstruction
+  if (isUserMemoryActive(getConversationSetting().userMemory)) {
+    const memoryInstruction = getUserMemoryInstruction()
+    if (memoryInstruction !== '')
+      instruction = instruction ? `${instruction}\n\n${memoryInstruction}` : memoryInstruction
+  }
+  return instruction
+}
+
+// The chat requests that need the tools or another system instruction are sent without the cache
+function isCacheBypassed(model: string, systemInstruction: string, talkMode: 'chat' | 'voice') {
+  return getRequestTools(model).length > 0 || getRequestInstruction(systemInstruction, talkMode) !== systemInstruction
+}
+
+function getModelTokenBudget(model: string) {
+  const { models } = useModelStore.getState()
+  const { contextBudget } = useSettingStore.getState()
+  const modelInfor = find(models, { name: `models/${model}` })
+  return getTokenBudget(modelInfor?.inputTokenLimit, contextBudget)
+}
 
 export default function Home() {
   const { t } = useTranslation()
@@ -83,16 +229,32 @@ export default function Home() {
   const edgeSpeechRef = useRef<EdgeSpeech>()
   const audioRecordRef = useRef<AudioRecorder>()
   const speechQueue = useRef<PromiseQueue>()
-  const stopGeneratingRef = useRef<boolean>(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const interruptedRef = useRef<boolean>(false)
+  const finishReasonRef = useRef<string>()
+  const safetyRef = useRef<Pick<Message, 'finishMessage' | 'blockReason' | 'safetyRatings'>>({})
+  const usageRef = useRef<MessageUsage>()
+  const thinkingDurationRef = useRef<number>()
+  const knowledgeRef = useRef<KnowledgeReference[]>()
   const messagesRef = useRef(useMessageStore.getState().messages)
   const messages = useMessageStore((state) => state.messages)
+  const currentId = useConversationStore((state) => state.currentId)
+  const outboxMessages = useOutboxStore((state) => state.messages)
+  const isOnline = useOnlineStatus()
+  const branches = useMessageStore((state) => state.branches)
   const title = useMessageStore((state) => state.title)
   const systemInstruction = useMessageStore((state) => state.systemInstruction)
   const systemInstructionEditMode = useMessageStore((state) => state.systemInstructionEditMode)
   const chatLayout = useMessageStore((state) => state.chatLayout)
   const files = useAttachmentStore((state) => state.files)
   const references = useMessageStore((state) => state.references)
-  const model = useSettingStore((state) => state.model)
+  const summary = useMessageStore((state) => state.summary)
+  const conversationSetting = useMessageStore((state) => state.setting)
+  const globalSetting = useSettingStore(useShallow((state) => pick(state, conversationSettingKeys)))
+  const tools = usePluginStore((state) => state.tools)
+  const model = conversationSetting.model || globalSetting.model
+  const contextBudget = useSettingStore((state) => state.contextBudget)
+  const models = useModelStore((state) => state.models)
   const [textareaHeight, setTextareaHeight] = useState<number>(TEXTAREA_DEFAULT_HEIGHT)
   const [content, setContent] = useState<string>('')
   const [message, setMessage] = useState<string>('')
@@ -101,10 +263,15 @@ export default function Home() {
   const [errorMessage, setErrorMessage] = useState<string>('')
   const [recordTime, setRecordTime] = useState<number>(0)
   const [settingOpen, setSetingOpen] = useState<boolean>(false)
+  const [conversationSettingOpen, setConversationSettingOpen] = useState<boolean>(false)
+  const [userMemoryOpen, setUserMemoryOpen] = useState<boolean>(false)
   const [speechSilence, setSpeechSilence] = useState<boolean>(false)
   const [isRecording, setIsRecording] = useState<boolean>(false)
   const [isThinking, setIsThinking] = useState<boolean>(false)
   const [executingPlugins, setExecutingPlugins] = useState<string[]>([])
+  // Bumped when the service worker reports that the network is back
+  const [outboxSignal, setOutboxSignal] = useState<number>(0)
+  const [compareAnswers, setCompareAnswers] = useState<CompareAnswer[]>([])
   const [enablePlugin, setEnablePlugin] = useState<boolean>(true)
   const [talkMode, setTalkMode] = useState<'chat' | 'voice'>('chat')
   const conversationTitle = useMemo(() => (title ? title : t('chatAnything')), [title, t])
@@ -115,9 +282,10 @@ export default function Home() {
   const isOldVisionModel = useMemo(() => {
     return OldVisionModel.includes(model)
   }, [model])
-  const isThinkingModel = useMemo(() => {
-    return model.includes('thinking')
-  }, [model])
+  // The thinking models without the thinking metadata are the experimental ones, which do not support the tools
+  const isExperimentalThinkingModel = useMemo(() => {
+    return model.includes('thinking') && !supportThinkingConfig(model, models)
+  }, [model, models])
   const isLiteModel = useMemo(() => {
     return model.includes('lite')
   }, [model])
@@ -130,6 +298,27 @@ export default function Home() {
   const supportSpeechRecognition = useMemo(() => {
     return !OldTextModel.includes(model) && !OldVisionModel.includes(model)
   }, [model])
+  const isCustomConversation = useMemo(() => {
+    return isCustomSetting(conversationSetting, getDefaultConversationSetting(globalSetting as Setting, tools))
+  }, [conversationSetting, globalSetting, tools])
+  const isComparing = useMemo(() => {
+    return compareAnswers.some((item) => item.status === 'loading')
+  }, [compareAnswers])
+  const tokenBudget = useMemo(() => {
+    const modelInfor = find(models, { name: `models/${model}` })
+    return getTokenBudget(modelInfor?.inputTokenLimit, contextBudget)
+  }, [model, models, contextBudget])
+  const contextTokens = useMemo(() => {
+    const memoryStrategy = conversationSetting.memoryStrategy || globalSetting.memoryStrategy
+    // The history before it is trimmed to the budget, so that the meter shows how close the context is to the limit
+    const history = getMemoryStrategy(memoryStrategy).buildHistory(messages, {
+      summary,
+      tokenBudget: Infinity,
+      windowSize: conversationSetting.memoryWindow || globalSetting.memoryWindow,
+    })
+    const fileTokens = files.reduce((total, file) => total + estimateMediaTokens(file.mimeType, file.size), 0)
+    return estimateMessagesTokens(history) + estimateTokens(systemInstruction) + estimateTokens(content) + fileTokens
+  }, [messages, summary, systemInstruction, conversationSetting, globalSetting, files, content])
   const isUploading = useMemo(() => {
     for (const file of files) {
       if (file.status === 'PROCESSING') return true
@@ -180,43 +369,96 @@ export default function Home() {
     const messages = [...messagesRef.current]
     const lastMessage = messages.pop()
     if (lastMessage?.role === 'model') {
-      const { revoke } = useMessageStore.getState()
-      revoke(lastMessage.id)
+      const { remove } = useMessageStore.getState()
+      remove(lastMessage.id)
     }
     setStatus('silence')
     setErrorMessage(`${code ?? '400'}: ${message}`)
   }, [])
 
-  const fetchAnswer = useCallback(
-    async ({ messages, model, onResponse, onFunctionCall, onError }: AnswerParams) => {
-      const { apiKey, apiProxy, password, topP, topK, temperature, maxOutputTokens, safety } =
-        useSettingStore.getState()
-      const { tools } = usePluginStore.getState()
+  const createRequestConfig = useCallback(
+    (messages: Message[], model: string, { safety, plain, withoutTools }: RequestOptions = {}) => {
+      const { topP, topK, temperature, maxOutputTokens, ...setting } = getConversationSetting()
       const generationConfig: RequestProps['generationConfig'] = { topP, topK, temperature, maxOutputTokens }
-      setErrorMessage('')
-      setIsThinking(true)
       const config: RequestProps = {
         messages,
-        apiKey,
+        apiKey: '',
         model,
         generationConfig,
-        safety,
+        safety: safety || setting.safety,
       }
-      if (systemInstruction) config.systemInstruction = systemInstruction
-      if (talkMode === 'voice') {
-        config.systemInstruction = `${getVoiceModelPrompt()}\n\n${systemInstruction}`
+      if (plain) return setRequestCredentials(config)
+      if (supportThinkingConfig(model, useModelStore.getState().models)) {
+        const { thinkingBudget, includeThoughts } = useSettingStore.getState()
+        config.thinkingConfig = { includeThoughts }
+        if (thinkingBudget >= 0) config.thinkingConfig.thinkingBudget = thinkingBudget
       }
-      if (tools.length > 0 && !isThinkingModel && !isLiteModel) config.tools = [{ functionDeclarations: tools }]
-      if (apiKey !== '') {
-        config.baseUrl = apiProxy || GEMINI_API_BASE_URL
-      } else {
-        config.apiKey = encodeToken(password)
-        config.baseUrl = '/api/google'
+      const tools = withoutTools ? [] : getRequestTools(model)
+      if (tools.length > 0) config.tools = [{ functionDeclarations: tools }]
+      const instruction = getRequestInstruction(systemInstruction, talkMode)
+      const { structuredOutput, cache, messages: messageList } = useMessageStore.getState()
+      // The api accepts neither the tools nor another system instruction together with a cache
+      if (
+        tools.length === 0 &&
+        instruction === systemInstruction &&
+        isCacheAvailable(cache, model, messageList, systemInstruction)
+      ) {
+        // The cached messages and system instruction are no longer sent with every request
+        config.cachedContent = cache.name
+        config.messages = messages.filter((item) => !cache.messageIds.includes(item.id))
+      } else if (instruction) {
+        config.systemInstruction = instruction
+      }
+      if (structuredOutput.enabled && structuredOutput.schema !== '') {
+        config.responseSchema = parseResponseSchema(structuredOutput.schema)
+      }
+      return setRequestCredentials(config)
+    },
+    [systemInstruction, talkMode],
+  )
+
+  const fetchAnswer = useCallback(
+    async ({ messages, model, onResponse, onFunctionCall, onError, retrieval, safety, plain }: AnswerParams) => {
+      setErrorMessage('')
+      let config: RequestProps
+      try {
+        // An invalid response schema is reported before the answer starts
+        config = createRequestConfig(messages, model, { safety, plain })
+      } catch (error) {
+        if (isFunction(onError)) onError(error instanceof Error ? error.message : String(error))
+        return
       }
+      setIsThinking(true)
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      config.signal = abortController.signal
+      finishReasonRef.current = undefined
+      safetyRef.current = {}
+      usageRef.current = undefined
+      thinkingDurationRef.current = undefined
+      knowledgeRef.current = undefined
+      const { apiKey } = useSettingStore.getState()
+      let startTime = Date.now()
+      let closeWriters: (() => void) | undefined
+      let hasContent = false
+      let hasThoughts = false
+      let answerStartTime = 0
       try {
+        const { knowledgeBaseIds } = useMessageStore.getState()
+        const lastMessage = config.messages[config.messages.length - 1]
+        if (retrieval && knowledgeBaseIds.length > 0 && lastMessage?.role === 'user') {
+          const query = findTextPart(lastMessage).join('\n')
+          const references = query !== '' ? await retrieveKnowledge(knowledgeBaseIds, query) : []
+          if (references.length > 0) {
+            // The excerpts are only sent with the question, they are not stored in the conversation
+            const parts = [...lastMessage.parts, { text: getKnowledgePrompt(references) }]
+            config.messages = [...config.messages.slice(0, -1), { ...lastMessage, parts }]
+            knowledgeRef.current = references
+          }
+          // The thinking duration does not include the retrieval
+          startTime = Date.now()
+        }
         const stream = await chat(config)
-        let thinking = false
-        if (isThinkingModel) thinking = true
 
         const encoder = new TextEncoder()
         const { readable, writable } = new TransformStream({
@@ -243,6 +485,21 @@ export default function Home() {
         const thoughtWriter = thoughtWritable.getWriter()
         const inlineDataWriter = inlineDataWritable.getWriter()
         const groundingSearchWriter = groundingSearchWritable.getWriter()
+        closeWriters = () => {
+          writer.close()
+          thoughtWriter.close()
+          inlineDataWriter.close()
+          groundingSearchWriter.close()
+        }
+        const writeText = (text: string) => {
+          hasContent = true
+          if (answerStartTime === 0) answerStartTime = Date.now()
+          writer.write(text)
+        }
+        const writeThought = (text: string) => {
+          hasThoughts = true
+          thoughtWriter.write(text)
+        }
         onResponse(readable, thoughtReadable, inlineDataReadable, groundingSearchReadable)
 
         const handleImage = async (part: InlineDataPart) => {
@@ -267,60 +524,48 @@ export default function Home() {
             data: imageDataURL.split(';base64,')[1],
           })
           const { references } = useMessageStore.getState()
-          writer.write(`\n![image.jpg][image-${references.length}]\n`)
+          writeText(`\n![image.jpg][image-${references.length}]\n`)
           inlineDataWriter.write(inlineData)
         }
 
         const functionCalls: FunctionCall[][] = []
 
+        let isBlocked = false
         for await (const chunk of stream) {
-          if (stopGeneratingRef.current) {
-            writer.close()
-            thoughtWriter.close()
-            inlineDataWriter.close()
-            groundingSearchWriter.close()
-            stopGeneratingRef.current = true
+          if (chunk.usageMetadata) {
+            usageRef.current = parseUsageMetadata(chunk.usageMetadata, apiKey !== '' ? config.apiKey : undefined)
+          }
+          if (chunk.promptFeedback) {
+            const { blockReason, blockReasonMessage, safetyRatings } = chunk.promptFeedback
+            if (safetyRatings) safetyRef.current.safetyRatings = safetyRatings
+            if (blockReason) {
+              // The prompt is blocked, no answer is generated
+              isBlocked = true
+              safetyRef.current.blockReason = blockReason
+              if (blockReasonMessage) safetyRef.current.finishMessage = blockReasonMessage
+            }
           }
-
           if (chunk.candidates) {
             const candidates: any[] = chunk.candidates
             for (const item of candidates) {
-              if (item.finishReason === 'IMAGE_SAFETY') {
-                return handleError('Unable to generate this type of image', 500)
-              }
+              if (item.finishReason) finishReasonRef.current = item.finishReason
+              if (item.safetyRatings) safetyRef.current.safetyRatings = item.safetyRatings
+              if (item.finishMessage) safetyRef.current.finishMessage = item.finishMessage
+              const blocked = blockedFinishReasons.includes(item.finishReason)
+              if (blocked) isBlocked = true
 
-              if (item.content.parts) {
-                if (thinking) {
-                  const textParts = item.content.parts.filter((item: any) => !isUndefined(item.text))
-                  if (textParts.length === 2) {
-                    if (textParts[0].text) {
-                      thoughtWriter.write(textParts[0].text)
-                    }
-                    if (textParts[1].text) {
-                      thinking = false
-                      writer.write(textParts[1].text)
-                    }
-                  } else {
-                    for (const textPart of textParts) {
-                      if (textPart.thought) {
-                        thoughtWriter.write(textPart.text)
-                      } else {
-                        thinking = false
-                        writer.write(textPart.text)
-                      }
-                    }
+              if (item.content?.parts) {
+                for (const part of item.content.parts) {
+                  if (part.thought) {
+                    if (part.text) writeThought(part.text)
+                  } else if (part.text) {
+                    writeText(part.text)
                   }
-                } else {
-                  for (const part of item.content.parts) {
-                    if (part.text) {
-                      writer.write(part.text)
-                    }
-                    if (part.inlineData?.mimeType.startsWith('image/')) {
-                      await handleImage(part)
-                    }
+                  if (part.inlineData?.mimeType.startsWith('image/')) {
+                    await handleImage(part)
                   }
                 }
-              } else if (item.finishMessage) {
+              } else if (item.finishMessage && !blocked) {
                 if (isFunction(onError)) onError(item.finishMessage)
               }
               if (item.groundingMetadata) {
@@ -329,45 +574,155 @@ export default function Home() {
             }
           }
 
-          const calls = chunk.functionCalls()
+          // The sdk throws an error when reading the function calls of a blocked answer
+          const calls = isBlocked ? undefined : chunk.functionCalls()
           if (calls) functionCalls.push(calls)
         }
 
-        writer.close()
-        thoughtWriter.close()
-        inlineDataWriter.close()
-        groundingSearchWriter.close()
+        // The thoughts may be hidden, the thought tokens still tell whether the model has thought
+        if (hasThoughts || (usageRef.current?.thoughtsTokens || 0) > 0) {
+          thinkingDurationRef.current = (answerStartTime || Date.now()) - startTime
+        }
+        closeWriters()
 
         if (isFunction(onFunctionCall)) {
           onFunctionCall(flatten(functionCalls))
         }
       } catch (error) {
-        if (error instanceof Error && isFunction(onError)) {
-          onError(error.message)
+        const isAborted = abortController.signal.aborted
+        if (closeWriters && (isAborted || hasContent)) {
+          // The partial answer is kept, a broken stream can be continued later
+          if (!isAborted) interruptedRef.current = true
+          closeWriters()
+        } else {
+          if (!isAborted && isFunction(onError)) onError(error instanceof Error ? error.message : String(error))
           setIsThinking(false)
         }
+      } finally {
+        if (abortControllerRef.current === abortController) abortControllerRef.current = null
       }
     },
-    [systemInstruction, isThinkingModel, isLiteModel, talkMode, handleError],
+    [createRequestConfig],
   )
 
   const summarize = useCallback(
     async (messages: Message[]) => {
       const { summary, summarize: summarizeChat } = useMessageStore.getState()
       const { ids, prompt } = summarizePrompt(messages, summary.ids, summary.content)
-      let content = ''
+      const { lang } = useSettingStore.getState()
+      let finished: Promise<void> = Promise.resolve()
       await fetchAnswer({
         messages: [{ id: 'summary', role: 'user', parts: [{ text: prompt }] }],
         model,
-        onResponse: async (text) => {
-          content += text
-          summarizeChat(ids, content.trim())
+        plain: true,
+        onResponse: (readableStream) => {
+          finished = new Promise((resolve) => {
+            let content = ''
+            textStream({
+              readable: readableStream,
+              locale: lang,
+              onMessage: (text) => {
+                content += text
+              },
+              onStatement: () => {},
+              onFinish: () => {
+                // A failed summary keeps the previous one
+                if (content.trim() !== '') summarizeChat(ids, content.trim())
+                setIsThinking(false)
+                resolve()
+              },
+            })
+          })
         },
+        onError: (message) => console.error(message),
       })
+      await finished
     },
     [fetchAnswer, model],
   )
 
+  const handleMemoryScan = useCallback(async () => {
+    try {
+      const count = await scanUserMemories()
+      if (count === 0) return
+      toast({
+        title: t('newMemories', { count }),
+        action: (
+          <ToastAction altText={t('review')} onClick={() => setUserMemoryOpen(true)}>
+            {t('review')}
+          </ToastAction>
+        ),
+      })
+    } catch (err) {
+      console.error(err)
+    }
+  }, [toast, t])
+
+  const continueAnswer = useCallback(
+    async (id: string, rounds = 1) => {
+      const { lang } = useSettingStore.getState()
+      const { model } = getConversationSetting()
+      for (let round = 0; round < rounds; round++) {
+        const { messages, update } = useMessageStore.getState()
+        const index = findIndex(messages, { id })
+        if (index === -1) return
+        const message = omit(messages[index], ['interrupted', 'finishReason'])
+        const textPartIndex = findLastIndex(message.parts, (part) => !isUndefined(part.text) && !isThoughtPart(part))
+        const prefix = textPartIndex > -1 ? message.parts[textPartIndex].text || '' : ''
+        // The continuation is stitched into the same text part, so code blocks and tables are not split
+        const updateText = (text: string, values: Partial<Message> = {}) => {
+          const parts = [...message.parts]
+          if (textPartIndex > -1) {
+            parts[textPartIndex] = { text }
+          } else {
+            parts.push({ text })
+          }
+          const newMessage = { ...message, ...values, parts }
+          update(id, newMessage)
+          return newMessage
+        }
+        update(id, message)
+        let finished: Promise<Message | undefined> = Promise.resolve(undefined)
+        await fetchAnswer({
+          // The model does not accept a conversation ending with its own answer, so it is asked to resume
+          messages: [...buildHistory(messages.slice(0, index + 1), model), getContinuePrompt()],
+          model,
+          onResponse: (readableStream) => {
+            finished = new Promise((resolve) => {
+              let text = prefix
+              textStream({
+                readable: readableStream,
+                locale: lang,
+                onMessage: (content) => {
+                  text += content
+                  updateText(text)
+                },
+                onStatement: () => {},
+                onFinish: () => {
+                  const values: Partial<Message> = {}
+                  if (finishReasonRef.current) values.finishReason = finishReasonRef.current
+                  Object.assign(values, safetyRef.current)
+                  if (usageRef.current) values.usage = mergeUsage(message.usage, usageRef.current)
+                  if (interruptedRef.current) values.interrupted = true
+                  interruptedRef.current = false
+                  setIsThinking(false)
+                  resolve(updateText(text, values))
+                },
+              })
+            })
+          },
+          onError: (message, code) => {
+            updateText(prefix, { interrupted: true })
+            setErrorMessage(`${code ?? '400'}: ${message}`)
+          },
+        })
+        const result = await finished
+        if (result?.finishReason !== 'MAX_TOKENS') break
+      }
+    },
+    [fetchAnswer],
+  )
+
   const handleResponse = useCallback(
     (
       readableStream: ReadableStream,
@@ -375,8 +730,9 @@ export default function Home() {
       inlineDataReadableStream: ReadableStream,
       groundingSearchReadableStream: ReadableStream,
     ) => {
-      const { lang, maxHistoryLength } = useSettingStore.getState()
-      const { summary, add: addMessage, clearReference } = useMessageStore.getState()
+      const { lang } = useSettingStore.getState()
+      const { model } = getConversationSetting()
+      const { structuredOutput, add: addMessage, clearReference } = useMessageStore.getState()
       speechQueue.current = new PromiseQueue()
       setSpeechSilence(false)
       let text = ''
@@ -403,36 +759,49 @@ export default function Home() {
             id: nanoid(),
             role: 'model',
             parts: [],
+            createdAt: Date.now(),
+            model,
           }
           message.parts = []
           if (text !== '') {
-            message.parts = thoughtText !== '' ? [{ text: thoughtText }, { text }] : [{ text }]
+            message.parts = thoughtText !== '' ? [{ text: thoughtText, thought: true }, { text }] : [{ text }]
           } else if (thoughtText !== '') {
-            message.parts = [{ text: thoughtText }]
+            message.parts = [{ text: thoughtText, thought: true }]
           }
           if (imageList.length > 0) {
             message.parts = [...message.parts, ...imageList]
           }
           if (groundingSearch) message.groundingMetadata = groundingSearch
+          if (structuredOutput.enabled && structuredOutput.schema !== '' && text !== '') {
+            message.structuredOutput = { errors: checkStructuredOutput(text, structuredOutput.schema) }
+          }
+          if (finishReasonRef.current) message.finishReason = finishReasonRef.current
+          Object.assign(message, safetyRef.current)
+          if (usageRef.current) message.usage = usageRef.current
+          if (thinkingDurationRef.current) message.thinkingDuration = thinkingDurationRef.current
+          if (knowledgeRef.current) message.knowledgeReferences = knowledgeRef.current
+          if (interruptedRef.current) {
+            message.interrupted = true
+            interruptedRef.current = false
+          }
           addMessage(message)
           setMessage('')
           setThinkingMessage('')
           clearReference()
           setIsThinking(false)
-          stopGeneratingRef.current = false
           setExecutingPlugins([])
-          if (maxHistoryLength > 0) {
-            const textMessages: Message[] = []
-            for (const item of messagesRef.current) {
-              for (const part of item.parts) {
-                if (part.text) textMessages.push(item)
-              }
-            }
-            const messageList = textMessages.filter((item) => !summary.ids.includes(item.id))
-            if (messageList.length > maxHistoryLength) {
-              await summarize(textMessages)
-            }
+          const { autoContinueRounds } = useSettingStore.getState()
+          if (message.finishReason === 'MAX_TOKENS' && autoContinueRounds > 0) {
+            await continueAnswer(message.id, autoContinueRounds)
           }
+          const { memoryStrategy } = getConversationSetting()
+          const pendingMessages = getMemoryStrategy(memoryStrategy).getMessagesToSummarize(
+            messagesRef.current,
+            getMemoryContext(model),
+          )
+          if (pendingMessages.length > 0) await summarize(pendingMessages)
+          // The facts are extracted in the background and wait for the confirmation of the user
+          if (isUserMemoryActive(getConversationSetting().userMemory)) handleMemoryScan()
         },
       })
       simpleTextStream({
@@ -460,18 +829,21 @@ export default function Home() {
         },
       })
     },
-    [speech, summarize, setThinkingMessage, talkMode],
+    [speech, summarize, continueAnswer, handleMemoryScan, setThinkingMessage, talkMode],
   )
 
   const handleFunctionCall = useCallback(
     async (functionCalls: FunctionCall[]) => {
-      const { apiKey, apiProxy, password, model } = useSettingStore.getState()
+      const { apiKey, apiProxy, password } = useSettingStore.getState()
+      const { model } = getConversationSetting()
       const { add: addMessage } = useMessageStore.getState()
       const { installed } = usePluginStore.getState()
       const pluginExecuteResults: Record<string, unknown> = {}
+      // The usage of the request belongs to the first function call only
+      let usage = usageRef.current
       for await (const call of functionCalls) {
         const pluginId = call.name.split('__')[0]
-        const pluginManifest = installed[pluginId]
+        const pluginManifest = installed[pluginId] || officialPlugins[pluginId]
         setExecutingPlugins((state) => [...state, call.name])
         let baseUrl = ''
         if (pluginManifest.servers) {
@@ -489,7 +861,11 @@ export default function Home() {
               functionCall: call,
             },
           ],
+          createdAt: Date.now(),
+          model,
+          usage,
         }
+        usage = undefined
         addMessage(functionCallMessage)
         const payload: GatewayPayload = {
           baseUrl: `${baseUrl}${operation.path}`,
@@ -598,6 +974,7 @@ export default function Home() {
           id: nanoid(),
           role: 'function',
           parts: functionResponses,
+          createdAt: Date.now(),
         }
         addMessage(functionResponseMessage)
         /**
@@ -605,7 +982,7 @@ export default function Home() {
          * a text response that can be displayed to the user.
          */
         await fetchAnswer({
-          messages: [...messagesRef.current],
+          messages: buildHistory(messagesRef.current, model),
           model,
           onResponse: handleResponse,
           onError: (message, code) => {
@@ -617,6 +994,81 @@ export default function Home() {
     [fetchAnswer, handleResponse, handleError, executingPlugins],
   )
 
+  const handleCompare = useCallback(
+    async (messages: Message[]) => {
+      const { compareModels } = useMessageStore.getState()
+      const updateAnswer = (index: number, values: Partial<CompareAnswer>) => {
+        setCompareAnswers((answers) => answers.map((item, idx) => (idx === index ? { ...item, ...values } : item)))
+      }
+      setErrorMessage('')
+      setCompareAnswers(compareModels.map((model) => ({ model, content: '', status: 'loading' })))
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      await Promise.all(
+        compareModels.map(async (model, index) => {
+          try {
+            const config = createRequestConfig([...messages], model, { withoutTools: true })
+            const stream = await chat({ ...config, signal: abortController.signal })
+            const { apiKey } = useSettingStore.getState()
+            let content = ''
+            for await (const chunk of stream) {
+              if (chunk.usageMetadata) {
+                updateAnswer(index, {
+                  usage: parseUsageMetadata(chunk.usageMetadata, apiKey !== '' ? config.apiKey : undefined),
+                })
+              }
+              const candidates: any[] = chunk.candidates || []
+              for (const item of candidates) {
+                for (const part of item.content?.parts || []) {
+                  if (part.text && !part.thought) content += part.text
+                }
+                if (!item.content?.parts && item.finishMessage) throw new Error(item.finishMessage)
+              }
+              updateAnswer(index, { content })
+            }
+            updateAnswer(index, { status: 'done' })
+          } catch (error) {
+            // The answers received before stopping are kept
+            if (abortController.signal.aborted) {
+              updateAnswer(index, { status: 'done' })
+            } else if (error instanceof Error) {
+              updateAnswer(index, { content: error.message, status: 'error' })
+            }
+          }
+        }),
+      )
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null
+    },
+    [createRequestConfig],
+  )
+
+  const handleSelectAnswer = useCallback(
+    (index: number) => {
+      const { add: addMessage, branch: branchMessage } = useMessageStore.getState()
+      const answers = compareAnswers.filter((item, idx) => idx !== index && item.status === 'done')
+      // The other answers are kept as sibling branches, the selected one becomes the current branch
+      let lastId = ''
+      for (const answer of [...answers, compareAnswers[index]]) {
+        const message: Message = {
+          id: nanoid(),
+          role: 'model',
+          parts: [{ text: answer.content }],
+          createdAt: Date.now(),
+          model: answer.model,
+          usage: answer.usage,
+        }
+        if (lastId === '') {
+          addMessage(message)
+        } else {
+          branchMessage(lastId, message)
+        }
+        lastId = message.id
+      }
+      setCompareAnswers([])
+    },
+    [compareAnswers],
+  )
+
   const checkAccessStatus = useCallback(() => {
     const { password, apiKey } = useSettingStore.getState()
     const { isProtected, buildMode } = useEnvStore.getState()
@@ -631,12 +1083,34 @@ export default function Home() {
   }, [])
 
   const handleSubmit = useCallback(
-    async (text: string): Promise<void> => {
+    // The queued messages bring their own attachments and leave the input alone
+    async (text: string, queued?: OutboxMessage): Promise<void> => {
       if (!checkAccessStatus()) return
       if (text === '') return
-      const { model } = useSettingStore.getState()
-      const { files, clear: clearAttachment } = useAttachmentStore.getState()
-      const { summary, add: addMessage } = useMessageStore.getState()
+      if (compareAnswers.length > 0) {
+        // The conversation continues with the answer picked by the user, the answers that can not be picked are dropped
+        if (
+          compareAnswers.some((item) => item.status === 'loading' || (item.status === 'done' && item.content !== ''))
+        ) {
+          toast({ description: t('selectCompareAnswer') })
+          return
+        }
+        setCompareAnswers([])
+      }
+      const { model } = getConversationSetting()
+      const { clear: clearAttachment } = useAttachmentStore.getState()
+      const files = queued ? queued.attachments : useAttachmentStore.getState().files
+      const { chatLayout, add: addMessage } = useMessageStore.getState()
+      const isRecording = text.startsWith('data:audio/')
+      if (!queued && !isRecording && isOffline()) {
+        const lastMessage = messagesRef.current[messagesRef.current.length - 1]
+        addToOutbox(useConversationStore.getState().currentId, text, files, lastMessage?.id)
+        setContent('')
+        clearAttachment()
+        setTextareaHeight(TEXTAREA_DEFAULT_HEIGHT)
+        scrollToBottom()
+        return
+      }
       const messagePart: Message['parts'] = []
       let talkAudioMode: boolean = false
       if (files.length > 0) {
@@ -685,11 +1159,19 @@ export default function Home() {
         id: nanoid(),
         role: 'user',
         parts: messagePart,
+        createdAt: Date.now(),
       }
       if (files && !isOldVisionModel) {
         newUserMessage.attachments = files
       }
       addMessage(newUserMessage)
+      if (queued) {
+        // The queued message leaves the outbox only once it is part of the conversation
+        const { remove, updateConversation } = useOutboxStore.getState()
+        remove(queued.id)
+        // The following messages are written after this one, the conversation changes because of it
+        updateConversation(queued.conversationId, { status: 'ready' })
+      }
       let messages: Message[] = [...messagesRef.current]
       if (talkAudioMode) {
         messages = getTalkAudioPrompt(messages)
@@ -698,71 +1180,133 @@ export default function Home() {
         setStatus('thinkng')
         setSubtitle('')
       }
-      if (summary.content !== '') {
-        const newMessages = messages.filter((item) => !summary.ids.includes(item.id))
-        messages = [...getSummaryPrompt(summary.content), ...newMessages]
+      messages = buildHistory(messages, model)
+      if (!queued) {
+        setContent('')
+        clearAttachment()
+        setTextareaHeight(TEXTAREA_DEFAULT_HEIGHT)
       }
-      setContent('')
-      clearAttachment()
-      setTextareaHeight(TEXTAREA_DEFAULT_HEIGHT)
       scrollToBottom()
+      if (chatLayout === 'compare' && !talkAudioMode) {
+        return await handleCompare(messages)
+      }
       await fetchAnswer({
         messages,
         model,
         onResponse: handleResponse,
         onFunctionCall: handleFunctionCall,
         onError: handleError,
+        retrieval: true,
       })
     },
     [
       isOldVisionModel,
+      compareAnswers,
       fetchAnswer,
+      handleCompare,
       talkMode,
       handleResponse,
       handleFunctionCall,
       handleError,
       checkAccessStatus,
       scrollToBottom,
+      toast,
+      t,
     ],
   )
 
   const handleResubmit = useCallback(
-    async (id: string) => {
+    async (id: string, safety?: string) => {
       if (!checkAccessStatus()) return false
-      const { model } = useSettingStore.getState()
-      const { messages, revoke: rovokeMessage } = useMessageStore.getState()
+      const { model } = getConversationSetting()
+      const { messages, branch: branchMessage } = useMessageStore.getState()
       if (id !== 'error') {
         const messageIndex = findIndex(messages, { id })
         if (messageIndex !== -1) {
           if (messages[messageIndex].role === 'model') {
-            rovokeMessage(id)
+            branchMessage(id)
           } else {
             const nextMessage = messages[messageIndex + 1]
-            if (nextMessage) rovokeMessage(messages[messageIndex + 1].id)
+            if (nextMessage) branchMessage(messages[messageIndex + 1].id)
           }
         }
       }
       scrollToBottom()
       await fetchAnswer({
-        messages: [...messagesRef.current],
+        messages: buildHistory(messagesRef.current, model),
         model,
         onResponse: handleResponse,
         onFunctionCall: handleFunctionCall,
         onError: handleError,
+        retrieval: true,
+        safety,
       })
     },
     [fetchAnswer, handleResponse, handleFunctionCall, handleError, checkAccessStatus, scrollToBottom],
   )
 
+  const handleRelaxedRegenerate = useCallback((id: string) => handleResubmit(id, 'none'), [handleResubmit])
+
+  const handleFork = useCallback(
+    async (id: string) => {
+      const { messages, summary, branches, backup, restore } = useMessageStore.getState()
+      const { currentId, query, addOrUpdate, setCurrentId } = useConversationStore.getState()
+      const index = findIndex(messages, { id })
+      if (index === -1) return false
+      const forkedMessages = messages.slice(0, index + 1)
+      const forkedIds = forkedMessages.map((item) => item.id)
+      const conversation = backup()
+      addOrUpdate(currentId, conversation)
+      // The summary is only valid when it does not cover any message after the fork point
+      const isSummaryValid = summary.ids.every((item) => forkedIds.includes(item))
+      const newConversation: Conversation = {
+        ...conversation,
+        ...pick(query(currentId), ['folderId', 'tags']),
+        title: conversation.title ? t('forkedConversationTitle', { title: conversation.title }) : '',
+        messages: forkedMessages,
+        summary: isSummaryValid ? summary : { ids: [], content: '' },
+        // Only keep the branches that fork before the last message
+        branches: pick(branches, ['root', ...forkedIds.slice(0, -1)]),
+        cache: undefined,
+      }
+      const newId = nanoid()
+      setCurrentId(newId)
+      addOrUpdate(newId, newConversation)
+      restore(newConversation)
+      setErrorMessage('')
+      toast({ title: t('conversationForked') })
+      if (!isSummaryValid) {
+        const { memoryStrategy } = getConversationSetting()
+        const pendingMessages = getMemoryStrategy(memoryStrategy).getMessagesToSummarize(
+          forkedMessages,
+          getMemoryContext(model),
+        )
+        if (pendingMessages.length > 0) await summarize(pendingMessages)
+      }
+    },
+    [model, summarize, t, toast],
+  )
+
+  const handleContinue = useCallback(
+    async (id: string) => {
+      if (!checkAccessStatus()) return false
+      const { autoContinueRounds } = useSettingStore.getState()
+      await continueAnswer(id, autoContinueRounds + 1)
+    },
+    [continueAnswer, checkAccessStatus],
+  )
+
   const handleCleanMessage = useCallback(() => {
-    const { clear: clearMessage, backup, restore } = useMessageStore.getState()
-    const conversation = backup()
+    const { clear: clearMessage, backup, messages } = useMessageStore.getState()
+    if (messages.length === 0) return false
+    // The cleared messages are kept in the trash, so they can be restored after the toast is gone
+    const item = trashClearedConversation(backup())
     clearMessage()
     setErrorMessage('')
     toast({
       title: t('chatContentCleared'),
       action: (
-        <ToastAction altText="Undo" onClick={() => restore(conversation)}>
+        <ToastAction altText="Undo" onClick={() => restoreTrashItems([item])}>
           {t('undo')}
         </ToastAction>
       ),
@@ -883,7 +1427,7 @@ export default function Home() {
 
   const handleStopGenerate = useCallback(() => {
     const { clearReference } = useMessageStore.getState()
-    stopGeneratingRef.current = true
+    if (abortControllerRef.current) abortControllerRef.current.abort()
     setIsThinking(false)
     setMessage('')
     setThinkingMessage('')
@@ -906,11 +1450,39 @@ export default function Home() {
     return parts
   }, [])
 
-  const handleChangeChatLayout = useCallback((type: 'chat' | 'doc') => {
-    const { changeChatLayout } = useMessageStore.getState()
+  const handleChangeChatLayout = useCallback((type: 'chat' | 'doc' | 'compare') => {
+    const { compareModels, changeChatLayout, setCompareModels } = useMessageStore.getState()
+    if (type === 'compare' && compareModels.length === 0) {
+      const { model } = getConversationSetting()
+      setCompareModels([model, model])
+    }
     changeChatLayout(type)
   }, [])
 
+  const handleModelChange = useCallback((model: string) => {
+    const { tools } = usePluginStore.getState()
+    const { setting, updateSetting } = useMessageStore.getState()
+    const defaultSetting = getDefaultConversationSetting(useSettingStore.getState(), tools)
+    updateSetting(diffConversationSetting({ ...setting, model }, defaultSetting))
+  }, [])
+
+  const handleSendQueued = useCallback((id: string) => {
+    const { messages, updateConversation } = useOutboxStore.getState()
+    const message = find(messages, { id })
+    // The user has confirmed that the messages still fit the changed conversation
+    if (message) updateConversation(message.conversationId, { status: 'ready' })
+  }, [])
+
+  const handleEditQueued = useCallback((id: string) => {
+    const { messages, remove } = useOutboxStore.getState()
+    const message = find(messages, { id })
+    if (!message) return
+    const { add: addAttachment } = useAttachmentStore.getState()
+    message.attachments.forEach((file) => addAttachment(file))
+    setContent(message.content)
+    remove(id)
+  }, [])
+
   const handleToggleSidebar = useCallback(() => {
     const { update } = useSettingStore.getState()
     toggleSidebar()
@@ -927,6 +1499,17 @@ export default function Home() {
     }
   }, [messages])
 
+  useEffect(() => onOutboxSync(() => setOutboxSignal(Date.now())), [])
+
+  useEffect(() => {
+    // The queued messages are sent one by one, each one waits for the answer of the previous one
+    if (!isOnline || isThinking || executingPlugins.length > 0) return
+    if (!useMessageStore.persist.hasHydrated() || !useOutboxStore.persist.hasHydrated()) return
+    const next = getNextOutboxMessage(currentId, messages[messages.length - 1]?.id)
+    if (!next) return
+    handleSubmit(next.content, next)
+  }, [isOnline, isThinking, executingPlugins, currentId, messages, outboxMessages, outboxSignal, handleSubmit])
+
   useEffect(() => {
     const { ttsLang, ttsVoice, update } = useSettingStore.getState()
     if (ttsLang !== '') {
@@ -940,12 +1523,12 @@ export default function Home() {
   }, [])
 
   useEffect(() => {
-    if (isOldVisionModel || isThinkingModel || isLiteModel || isImageGenerationModel) {
+    if (isOldVisionModel || isExperimentalThinkingModel || isLiteModel || isImageGenerationModel) {
       setEnablePlugin(false)
     } else {
       setEnablePlugin(true)
     }
-  }, [isOldVisionModel, isThinkingModel, isLiteModel, isImageGenerationModel])
+  }, [isOldVisionModel, isExperimentalThinkingModel, isLiteModel, isImageGenerationModel])
 
   useLayoutEffect(() => {
     const setting = useSettingStore.getState()
@@ -972,18 +1555,25 @@ export default function Home() {
     <main className="mx-auto flex h-screen max-h-[-webkit-fill-available] w-full max-w-screen-md flex-col justify-between overflow-hidden">
       <div className="flex w-full justify-between px-4 pb-2 pr-2 pt-10 max-md:pt-4 max-sm:pr-2 max-sm:pt-4">
         <div className="flex items-center text-red-400">
-          <div>
+          <div className="relative" title={t(isOnline ? 'online' : 'offlineDescription')}>
             <MessageCircleHeart className="h-10 w-10 max-sm:h-8 max-sm:w-8" />
+            <span
+              className={cn(
+                'absolute bottom-0.5 right-0.5 h-2.5 w-2.5 rounded-full border-2 border-background',
+                isOnline ? 'bg-green-500' : 'bg-slate-400',
+              )}
+            />
           </div>
           <div className="ml-1 flex-1 max-sm:ml-0.5">
             <h2 className="text-line-clamp break-all font-bold leading-6 max-sm:text-sm">{conversationTitle}</h2>
             <ModelSelect
               className="flex h-4 justify-start border-none px-0 py-0 text-left leading-4 text-slate-500 hover:text-slate-700 dark:hover:text-slate-400"
               defaultModel={model}
+              onChange={conversationSetting.model ? handleModelChange : undefined}
             />
           </div>
         </div>
-        <div className="flex w-32 items-center gap-1 max-sm:gap-0">
+        <div className="flex w-40 items-center gap-1 max-sm:gap-0">
           <a href="https://github.com/u14app/gemini-next-chat" target="_blank">
             <Button className="h-8 w-8" title={t('github')} variant="ghost" size="icon">
               <Github className="h-5 w-5" />
@@ -999,6 +1589,15 @@ export default function Home() {
           >
             {sidebarState === 'collapsed' ? <PanelLeftOpen /> : <PanelLeftClose className="h-5 w-5" />}
           </Button>
+          <Button
+            className={cn('h-8 w-8', isCustomConversation ? 'text-red-400 hover:text-red-400' : '')}
+            title={t('conversationSetting')}
+            variant="ghost"
+            size="icon"
+            onClick={() => setConversationSettingOpen(true)}
+          >
+            <SlidersHorizontal className="h-5 w-5" />
+          </Button>
           <Button
             className="h-8 w-8"
             title={t('setting')}
@@ -1026,6 +1625,7 @@ export default function Home() {
                   'group text-slate-500 transition-colors last:text-slate-800 hover:text-slate-800 dark:last:text-slate-400 dark:hover:text-slate-400 max-sm:hover:bg-transparent',
                   msg.role === 'model' && msg.parts && msg.parts[0]?.functionCall ? 'hidden' : '',
                 )}
+                id={`message-${msg.id}`}
                 key={msg.id}
               >
                 <div
@@ -1034,7 +1634,14 @@ export default function Home() {
                     msg.role === 'user' && chatLayout === 'chat' ? 'flex-row-reverse text-right' : '',
                   )}
                 >
-                  <MessageItem {...msg} onRegenerate={handleResubmit} />
+                  <MessageItem
+                    {...msg}
+                    branch={branches[idx > 0 ? messages[idx - 1].id : 'root']}
+                    onRegenerate={handleResubmit}
+                    onRelaxedRegenerate={handleRelaxedRegenerate}
+                    onFork={handleFork}
+                    onContinue={handleContinue}
+                  />
                 </div>
               </div>
             ))}
@@ -1045,6 +1652,11 @@ export default function Home() {
                 </div>
               </div>
             ) : null}
+            {compareAnswers.length > 0 ? (
+              <div className="text-slate-800 dark:text-slate-400">
+                <CompareAnswers answers={compareAnswers} onSelect={handleSelectAnswer} />
+              </div>
+            ) : null}
             {isThinking ? (
               <div className="group text-slate-500 transition-colors last:text-slate-800 hover:text-slate-800 dark:last:text-slate-400 dark:hover:text-slate-400 max-sm:hover:bg-transparent">
                 <div className="flex gap-3 p-4 pb-1 hover:bg-gray-50/80 dark:hover:bg-gray-900/80">
@@ -1053,7 +1665,7 @@ export default function Home() {
                     role="model"
                     parts={
                       thinkingMessage !== ''
-                        ? [{ text: thinkingMessage }, { text: message }]
+                        ? [{ text: thinkingMessage, thought: true }, { text: message }]
                         : references.length > 0
                           ? [{ text: message }, ...references]
                           : [{ text: message }]
@@ -1069,6 +1681,18 @@ export default function Home() {
                 </div>
               </div>
             ) : null}
+            {outboxMessages.map((item) =>
+              item.conversationId === currentId ? (
+                <PendingMessage
+                  key={item.id}
+                  message={item}
+                  layout={chatLayout}
+                  onSend={handleSendQueued}
+                  onEdit={handleEditQueued}
+                  onDiscard={(id) => useOutboxStore.getState().remove(id)}
+                />
+              ) : null,
+            )}
             {content !== '' ? (
               <div className="group text-slate-500 transition-colors last:text-slate-800 hover:text-slate-800 dark:last:text-slate-400 dark:hover:text-slate-400 max-sm:hover:bg-transparent">
                 <div
@@ -1090,6 +1714,13 @@ export default function Home() {
                   {t('changeChatLayout')}
                 </span>
                 <span className="mx-2 mt-0.5 h-3 border-r-[1px]"></span>
+                <span
+                  className="cursor-pointer hover:text-slate-500"
+                  onClick={() => handleChangeChatLayout(chatLayout === 'compare' ? 'doc' : 'compare')}
+                >
+                  {t(chatLayout === 'compare' ? 'exitCompareMode' : 'compareMode')}
+                </span>
+                <span className="mx-2 mt-0.5 h-3 border-r-[1px]"></span>
                 <span className="cursor-pointer hover:text-slate-500" onClick={() => handleCleanMessage()}>
                   {t('clearChatContent')}
                 </span>
@@ -1100,8 +1731,16 @@ export default function Home() {
         </div>
       )}
       <div className="max-w-screen-md bg-background px-4 pb-8 pt-2 max-md:pb-4 max-sm:p-2 max-sm:pb-3">
+        {chatLayout === 'compare' ? <CompareModelSelect /> : null}
+        {!isOnline ? (
+          <p className="mb-2 inline-flex w-full items-center justify-center gap-1 text-xs text-slate-500">
+            <WifiOff className="h-4 w-4" />
+            {t('offlineDescription')}
+          </p>
+        ) : null}
         <div className="flex w-full items-end gap-2 max-sm:pb-[calc(var(--safe-area-inset-bottom)-16px)]">
           {enablePlugin ? <PluginList /> : null}
+          <StructuredOutput />
           <div
             className="relative box-border flex w-full flex-1 flex-col rounded-md border border-input bg-[hsl(var(--background))] py-1 max-sm:py-0"
             onPaste={handlePaste}
@@ -1115,7 +1754,7 @@ export default function Home() {
               autoFocus
               className={cn(
                 'max-h-[120px] w-full resize-none border-none bg-transparent px-2 pt-1 text-sm leading-6 transition-[height] focus-visible:outline-none',
-                !supportSpeechRecognition ? 'pr-8' : 'pr-16',
+                !supportSpeechRecognition ? 'pr-28' : 'pr-36',
               )}
               style={{ height: `${textareaHeight}px` }}
               value={content}
@@ -1128,6 +1767,8 @@ export default function Home() {
               onKeyDown={handleKeyDown}
             />
             <div className="absolute bottom-0.5 right-1 flex max-sm:bottom-0">
+              <ContextMeter className="w-12" used={contextTokens} limit={tokenBudget} />
+              <ContextCache model={model} isBypassed={() => isCacheBypassed(model, systemInstruction, talkMode)} />
               {supportAttachment ? (
                 <TooltipProvider>
                   <Tooltip>
@@ -1166,7 +1807,7 @@ export default function Home() {
               ) : null}
             </div>
           </div>
-          {isThinking ? (
+          {isThinking || isComparing ? (
             <Button
               className="rounded-full max-sm:h-8 max-sm:w-8 [&_svg]:size-4 max-sm:[&_svg]:size-3"
               title={t('stop')}
@@ -1218,7 +1859,9 @@ export default function Home() {
           />
         )
       ) : null}
+      <ConversationSetting open={conversationSettingOpen} onClose={() => setConversationSettingOpen(false)} />
       <Setting open={settingOpen} hiddenTalkPanel={!supportSpeechRecognition} onClose={() => setSetingOpen(false)} />
+      <UserMemory open={userMemoryOpen} onClose={() => setUserMemoryOpen(false)} />
     </main>
   )
 }
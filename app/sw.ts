@@ -1,6 +1,7 @@
 import { defaultCache } from '@serwist/next/worker'
 import type { PrecacheEntry, SerwistGlobalConfig } from 'serwist'
 import { Serwist, NetworkFirst } from 'serwist'
+import { OUTBOX_SYNC_TAG, OUTBOX_SYNC_MESSAGE } from '@/constant/outbox'
 
 // This declares the value of `injectionPoint` to TypeScript.
 // `injectionPoint` is the string that will be replaced by the
@@ -14,6 +15,11 @@ declare global {
 
 declare const self: ServiceWorkerGlobalScope
 
+// The background sync api is not included in the typescript lib
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string
+}
+
 const serwist = new Serwist({
   precacheEntries: self.__SW_MANIFEST,
   precacheOptions: {
@@ -38,3 +44,14 @@ const serwist = new Serwist({
 })
 
 serwist.addEventListeners()
+
+// The queued messages are sent by the page, the service worker only wakes the open pages up when the network is back
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent
+  if (syncEvent.tag !== OUTBOX_SYNC_TAG) return
+  syncEvent.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: OUTBOX_SYNC_MESSAGE }))
+    }),
+  )
+})
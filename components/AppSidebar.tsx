@@ -1,6 +1,7 @@
 'use client'
-import { useCallback, memo, useMemo, useState } from 'react'
+import { useCallback, memo, useMemo, useState, type ReactNode, type DragEvent } from 'react'
 import { useTranslation } from 'react-i18next'
+import { useShallow } from 'zustand/react/shallow'
 import {
   MessageSquarePlus,
   EllipsisVertical,
@@ -11,6 +12,19 @@ import {
   WandSparkles,
   Trash,
   Download,
+  SlidersHorizontal,
+  FolderPlus,
+  FolderInput,
+  FolderClosed,
+  FolderOpen,
+  ChevronRight,
+  ListChecks,
+  FileUp,
+  Tags,
+  Trash2,
+  BarChart3,
+  Library,
+  X,
 } from 'lucide-react'
 import {
   Sidebar,
@@ -29,26 +43,56 @@ import {
   DropdownMenuItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
 } from '@/components/ui/dropdown-menu'
 import { Input } from '@/components/ui/input'
+import { ToastAction } from '@/components/ui/toast'
+import { useToast } from '@/components/ui/use-toast'
+import { Checkbox } from '@/components/ui/checkbox'
 import Button from '@/components/Button'
 import SearchBar from '@/components/SearchBar'
+import FolderEditor from '@/components/FolderEditor'
+import TagEditor from '@/components/TagEditor'
+import ConversationImporter from '@/components/ConversationImporter'
+import TrashBin from '@/components/TrashBin'
+import UsageDashboard from '@/components/UsageDashboard'
+import KnowledgeBase from '@/components/KnowledgeBase'
+import SearchFilter, {
+  defaultSearchFilter,
+  getSearchFilterParams,
+  type SearchFilterValue,
+} from '@/components/SearchFilter'
 import { useMessageStore } from '@/store/chat'
 import { useConversationStore } from '@/store/conversation'
+import { trashConversations, restoreTrashItems } from '@/utils/trash'
 import { useSettingStore } from '@/store/setting'
+import { usePluginStore } from '@/store/plugin'
 import { GEMINI_API_BASE_URL } from '@/constant/urls'
 import { encodeToken } from '@/utils/signature'
 import summaryTitle, { type RequestProps } from '@/utils/summaryTitle'
-import { downloadFile } from '@/utils/common'
+import { getDefaultConversationSetting, isCustomSetting, conversationSettingKeys } from '@/utils/setting'
+import type { SearchResult } from '@/utils/SearchIndex'
+import type { ExportFormat } from '@/utils/exporter'
 import { cn } from '@/utils'
 import { customAlphabet } from 'nanoid'
-import { entries, isNull } from 'lodash-es'
+import { entries, isNull, pick, groupBy, union, values } from 'lodash-es'
 
 type Props = {
   id: string
   title: string
   pinned?: boolean
   isActive?: boolean
+  customized?: boolean
+  matches?: SearchResult[]
+  tags?: string[]
+  folderId?: string
+  selectable?: boolean
+  selected?: boolean
+  onSelect?: (id: string, selected: boolean) => void
+  onDragStart?: (ev: DragEvent, id: string) => void
+  onEditTags?: (id: string) => void
 }
 
 interface ConversationItem extends Conversation {
@@ -57,29 +101,65 @@ interface ConversationItem extends Conversation {
 
 const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
 
-function search(keyword: string, data: Record<string, Conversation>): Record<string, Conversation> {
-  const results: Record<string, Conversation> = {}
-  // 'i' means case-insensitive
-  const regex = new RegExp(keyword.trim(), 'gi')
-  for (const [id, item] of entries(data)) {
-    if (regex.test(item.title) || regex.test(item.systemInstruction)) {
-      results[id] = item
+const DRAG_DATA_TYPE = 'application/x-conversation-ids'
+
+const exportFormats: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'zip', label: 'ZIP' },
+]
+
+// Wait for the conversation to be rendered, then scroll to the message and flash it
+function scrollToMessage(id: string) {
+  setTimeout(() => {
+    const element = document.getElementById(`message-${id}`)
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      element.classList.add('bg-amber-50', 'dark:bg-amber-950/40')
+      setTimeout(() => element.classList.remove('bg-amber-50', 'dark:bg-amber-950/40'), 2000)
     }
-    item.messages.forEach((message) => {
-      message.parts.forEach((part) => {
-        if (part.text && regex.test(part.text)) {
-          results[id] = item
-        }
-      })
-    })
-  }
-  return results
+  }, 200)
+}
+
+function Highlight({ text, highlights }: { text: string; highlights: Array<[number, number]> }) {
+  const nodes: ReactNode[] = []
+  let position = 0
+  highlights.forEach(([start, end], idx) => {
+    if (start < position) return
+    if (start > position) nodes.push(text.slice(position, start))
+    nodes.push(
+      <mark key={idx} className="rounded-sm bg-amber-200 text-inherit dark:bg-amber-800">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  })
+  nodes.push(text.slice(position))
+  return <>{nodes}</>
 }
 
 function ConversationItem(props: Props) {
-  const { id, title, pinned = false, isActive = false } = props
+  const {
+    id,
+    title,
+    pinned = false,
+    isActive = false,
+    customized = false,
+    matches = [],
+    tags = [],
+    folderId,
+    selectable = false,
+    selected = false,
+    onSelect,
+    onDragStart,
+    onEditTags,
+  } = props
   const { t } = useTranslation()
-  const { pin, unpin, copy, remove } = useConversationStore()
+  const { toast } = useToast()
+  const { pin, unpin, copy, moveToFolder } = useConversationStore()
+  const folders = useConversationStore((state) => state.folders)
   const { setTitle } = useMessageStore()
   const [customTitle, setCustomTitle] = useState<string>(title)
   const [editTitleMode, setEditTitleMode] = useState<boolean>(false)
@@ -134,6 +214,15 @@ function ConversationItem(props: Props) {
     [handleSummaryTitle],
   )
 
+  const handleOpenMatch = useCallback(
+    (messageId: string) => {
+      const { currentId } = useConversationStore.getState()
+      if (id !== currentId) handleSelect(id)
+      scrollToMessage(messageId)
+    },
+    [id, handleSelect],
+  )
+
   const editTitle = useCallback(
     (text: string) => {
       setTitle(text)
@@ -164,176 +253,278 @@ function ConversationItem(props: Props) {
 
   const handleDelete = useCallback(
     (id: string) => {
-      const { currentId, setCurrentId, query } = useConversationStore.getState()
-      const { restore } = useMessageStore.getState()
-      if (id === currentId) {
-        setCurrentId('default')
-        const newConversation = query('default')
-        restore(newConversation)
-      }
-      remove(id)
+      const items = trashConversations([id])
+      toast({
+        title: t('movedToTrash', { count: items.length }),
+        action: (
+          <ToastAction altText="Undo" onClick={() => restoreTrashItems(items)}>
+            {t('undo')}
+          </ToastAction>
+        ),
+        duration: 3600,
+      })
     },
-    [remove],
+    [t, toast],
   )
 
   const exportConversation = useCallback(
-    (id: string) => {
+    async (id: string, format: ExportFormat) => {
       const { currentId, query } = useConversationStore.getState()
       const { backup } = useMessageStore.getState()
       const conversation = id === currentId ? backup() : query(id)
-      let mdContentList: string[] = []
-
-      const wrapJsonCode = (content: string) => {
-        return `\`\`\`json\n${content}\n\`\`\``
-      }
-
-      if (conversation.systemInstruction) {
-        mdContentList.push('> SystemInstruction')
-        mdContentList.push(conversation.systemInstruction)
-      }
-      conversation.messages.forEach((item) => {
-        if (item.role === 'user') {
-          mdContentList.push('> User')
-        } else if (item.role === 'model') {
-          mdContentList.push('> AI')
-        } else if (item.role === 'function') {
-          mdContentList.push('> Plugin')
-        }
-        item.parts.forEach((part) => {
-          if (part.fileData) {
-            mdContentList.push(`[${part.fileData.mimeType}](${part.fileData.fileUri})`)
-          } else if (part.inlineData) {
-            mdContentList.push(
-              `${part.inlineData.mimeType.startsWith('data:image/') ? '!' : ''}[${part.inlineData.mimeType}](data:${part.inlineData.mimeType};base64,${part.inlineData.data})`,
-            )
-          } else if (part.functionCall) {
-            mdContentList.push(part.functionCall.name)
-            mdContentList.push(wrapJsonCode(JSON.stringify(part.functionCall.args, null, 2)))
-          } else if (part.functionResponse) {
-            mdContentList.push(part.functionResponse.name)
-            mdContentList.push(wrapJsonCode(JSON.stringify(part.functionResponse.response, null, 2)))
-          } else if (part.text) {
-            let content = part.text
-            if (item.groundingMetadata) {
-              const { groundingChunks = [] } = item.groundingMetadata
-              content += `\n\n---\n\n${groundingChunks.map((item) => `- [${item.web?.title}](${item.web?.uri})`).join('\n')}`
-            }
-            mdContentList.push(content)
-          }
-        })
-      })
-      const mdContent = mdContentList.join('\n\n')
-      downloadFile(mdContent, conversation.title ?? t('chatAnything'), 'text/markdown')
+      const { exportConversations } = await import('@/utils/exporter')
+      await exportConversations([{ id, conversation }], format, t('chatAnything'))
     },
     [t],
   )
 
   return (
-    <div
-      className={cn(
-        'inline-flex h-10 w-full cursor-pointer justify-between rounded-md px-2 hover:bg-[hsl(var(--sidebar-accent))]',
-        isActive ? 'bg-[hsl(var(--sidebar-accent))] font-medium' : '',
-        editTitleMode ? 'bg-transparent hover:bg-transparent' : '',
-      )}
-      onClick={() => handleSelect(id)}
-    >
-      {editTitleMode ? (
-        <div className="relative w-full">
-          <Input className="my-1 h-8" value={conversationTitle} onChange={(ev) => setCustomTitle(ev.target.value)} />
-          <Button
-            className="absolute right-1 top-2 h-6 w-6"
-            size="icon"
-            variant="ghost"
-            title={t('save')}
-            onClick={() => editTitle(customTitle)}
-          >
-            <PencilLine />
-          </Button>
-        </div>
-      ) : (
-        <>
-          <span className="truncate text-sm leading-10" title={conversationTitle}>
-            {conversationTitle}
-          </span>
-          <DropdownMenu>
-            <DropdownMenuTrigger>
-              <EllipsisVertical className="h-6 w-6 rounded-sm p-1 hover:bg-background" />
-            </DropdownMenuTrigger>
-            <DropdownMenuContent
-              onClick={(ev) => {
-                ev.stopPropagation()
-                ev.preventDefault()
-              }}
+    <>
+      <div
+        className={cn(
+          'inline-flex h-10 w-full cursor-pointer justify-between rounded-md px-2 hover:bg-[hsl(var(--sidebar-accent))]',
+          isActive ? 'bg-[hsl(var(--sidebar-accent))] font-medium' : '',
+          editTitleMode ? 'bg-transparent hover:bg-transparent' : '',
+        )}
+        draggable={id !== 'default' && !editTitleMode}
+        onDragStart={(ev) => onDragStart && onDragStart(ev, id)}
+        onClick={() => (selectable ? onSelect && onSelect(id, !selected) : handleSelect(id))}
+      >
+        {editTitleMode ? (
+          <div className="relative w-full">
+            <Input className="my-1 h-8" value={conversationTitle} onChange={(ev) => setCustomTitle(ev.target.value)} />
+            <Button
+              className="absolute right-1 top-2 h-6 w-6"
+              size="icon"
+              variant="ghost"
+              title={t('save')}
+              onClick={() => editTitle(customTitle)}
             >
-              {id !== 'default' ? (
-                <DropdownMenuItem onClick={() => (pinned ? unpin(id) : pin(id))}>
-                  {pinned ? (
-                    <>
-                      <PinOff />
-                      <span>{t('unpin')}</span>
-                    </>
-                  ) : (
-                    <>
-                      <Pin />
-                      <span>{t('pin')}</span>
-                    </>
-                  )}
-                </DropdownMenuItem>
+              <PencilLine />
+            </Button>
+          </div>
+        ) : (
+          <>
+            <span className="inline-flex min-w-0 items-center gap-1">
+              {selectable ? (
+                <Checkbox
+                  className="mr-1"
+                  checked={selected}
+                  onClick={(ev) => ev.stopPropagation()}
+                  onCheckedChange={(checked) => onSelect && onSelect(id, checked === true)}
+                />
               ) : null}
-              <DropdownMenuItem onClick={() => handleCopy(id)}>
-                <Copy />
-                <span>{t('newCopy')}</span>
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => exportConversation(id)}>
-                <Download />
-                <span>{t('exportConversation')}</span>
-              </DropdownMenuItem>
-              {id !== 'default' ? (
-                <DropdownMenuGroup>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem onClick={() => handleSummaryTitle(id)}>
-                    <WandSparkles />
-                    <span>{t('AIRename')}</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setEditTitleMode(true)}>
-                    <PencilLine />
-                    <span>{t('rename')}</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem className="text-red-500" onClick={() => handleDelete(id)}>
-                    <Trash />
-                    <span>{t('delete')}</span>
-                  </DropdownMenuItem>
-                </DropdownMenuGroup>
+              <span className="truncate text-sm leading-10" title={conversationTitle}>
+                {conversationTitle}
+              </span>
+              {tags.slice(0, 2).map((tag) => (
+                <span
+                  key={tag}
+                  className="shrink-0 rounded bg-secondary px-1 text-[10px] font-normal leading-4 text-secondary-foreground"
+                >
+                  {tag}
+                </span>
+              ))}
+              {tags.length > 2 ? <span className="shrink-0 text-[10px] text-slate-500">+{tags.length - 2}</span> : null}
+              {customized ? (
+                <span title={t('customSetting')}>
+                  <SlidersHorizontal className="h-3 w-3 shrink-0 text-red-400" />
+                </span>
               ) : null}
-            </DropdownMenuContent>
-          </DropdownMenu>
-        </>
-      )}
-    </div>
+            </span>
+            <DropdownMenu>
+              <DropdownMenuTrigger>
+                <EllipsisVertical className="h-6 w-6 rounded-sm p-1 hover:bg-background" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent
+                onClick={(ev) => {
+                  ev.stopPropagation()
+                  ev.preventDefault()
+                }}
+              >
+                {id !== 'default' ? (
+                  <DropdownMenuItem onClick={() => (pinned ? unpin(id) : pin(id))}>
+                    {pinned ? (
+                      <>
+                        <PinOff />
+                        <span>{t('unpin')}</span>
+                      </>
+                    ) : (
+                      <>
+                        <Pin />
+                        <span>{t('pin')}</span>
+                      </>
+                    )}
+                  </DropdownMenuItem>
+                ) : null}
+                <DropdownMenuItem onClick={() => handleCopy(id)}>
+                  <Copy />
+                  <span>{t('newCopy')}</span>
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <Download />
+                    <span>{t('exportConversation')}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {exportFormats.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} onClick={() => exportConversation(id, format)}>
+                        <span>{label}</span>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                {id !== 'default' ? (
+                  <>
+                    <DropdownMenuItem onClick={() => onEditTags && onEditTags(id)}>
+                      <Tags />
+                      <span>{t('editTags')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger>
+                        <FolderInput />
+                        <span>{t('moveToFolder')}</span>
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        <DropdownMenuItem disabled={!folderId} onClick={() => moveToFolder([id])}>
+                          <span>{t('conversationList')}</span>
+                        </DropdownMenuItem>
+                        {folders.map((folder) => (
+                          <DropdownMenuItem
+                            key={folder.id}
+                            disabled={folder.id === folderId}
+                            onClick={() => moveToFolder([id], folder.id)}
+                          >
+                            <span className="max-w-40 truncate">{folder.name}</span>
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  </>
+                ) : null}
+                {id !== 'default' ? (
+                  <DropdownMenuGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => handleSummaryTitle(id)}>
+                      <WandSparkles />
+                      <span>{t('AIRename')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setEditTitleMode(true)}>
+                      <PencilLine />
+                      <span>{t('rename')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-500" onClick={() => handleDelete(id)}>
+                      <Trash />
+                      <span>{t('delete')}</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuGroup>
+                ) : null}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+      </div>
+      {matches.length > 0 ? (
+        <ul className="mb-1 ml-2 border-l pl-2">
+          {matches.map((match) => (
+            <li
+              key={match.messageId}
+              className="cursor-pointer rounded-sm px-1 py-0.5 text-xs leading-5 text-slate-500 hover:bg-[hsl(var(--sidebar-accent))]"
+              onClick={() => handleOpenMatch(match.messageId as string)}
+            >
+              <span className="mr-1 font-medium">{match.role === 'user' ? t('you') : match.model || 'AI'}:</span>
+              <Highlight text={match.snippet} highlights={match.highlights} />
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </>
   )
 }
 
 function AppSidebar() {
   const { t } = useTranslation()
+  const { toast } = useToast()
   const conversationList = useConversationStore((state) => state.conversationList)
   const pinned = useConversationStore((state) => state.pinned)
+  const folders = useConversationStore((state) => state.folders)
   const currentId = useConversationStore((state) => state.currentId)
-  const [conversations, setConversations] = useState<Record<string, Conversation> | null>(null)
-  const [list, pinnedList] = useMemo(() => {
+  const currentSetting = useMessageStore((state) => state.setting)
+  const globalSetting = useSettingStore(useShallow((state) => pick(state, conversationSettingKeys)))
+  const tools = usePluginStore((state) => state.tools)
+  const [keyword, setKeyword] = useState<string>('')
+  const [searchFilter, setSearchFilter] = useState<SearchFilterValue>(defaultSearchFilter)
+  const [searchModels, setSearchModels] = useState<string[]>([])
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [selectMode, setSelectMode] = useState<boolean>(false)
+  const [selected, setSelected] = useState<string[]>([])
+  // Folder id of the drop target, the conversation list is an empty string
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [folderEditorOpen, setFolderEditorOpen] = useState<boolean>(false)
+  const [editingFolder, setEditingFolder] = useState<ConversationFolder>()
+  const [tagEditorId, setTagEditorId] = useState<string>('')
+  const [importerOpen, setImporterOpen] = useState<boolean>(false)
+  const [trashOpen, setTrashOpen] = useState<boolean>(false)
+  const [usageOpen, setUsageOpen] = useState<boolean>(false)
+  const [knowledgeBaseOpen, setKnowledgeBaseOpen] = useState<boolean>(false)
+  const [conversations, matches] = useMemo((): [
+    Record<string, Conversation> | null,
+    Record<string, SearchResult[]>,
+  ] => {
+    if (keyword.trim() === '') return [null, {}]
+    const { search } = useConversationStore.getState()
+    const results = search(keyword, getSearchFilterParams(searchFilter))
+    const groups = groupBy(results, 'conversationId')
+    const list: Record<string, Conversation> = {}
+    const matches: Record<string, SearchResult[]> = {}
+    for (const [id, items] of entries(groups)) {
+      if (!conversationList[id]) continue
+      list[id] = conversationList[id]
+      matches[id] = items.filter((item) => item.messageId).slice(0, 3)
+    }
+    return [list, matches]
+  }, [keyword, searchFilter, conversationList])
+  const allTags = useMemo(() => {
+    let tags: string[] = []
+    for (const conversation of values(conversationList)) {
+      if (conversation.tags) tags = union(tags, conversation.tags)
+    }
+    return tags.sort()
+  }, [conversationList])
+  const activeTags = useMemo(() => selectedTags.filter((tag) => allTags.includes(tag)), [selectedTags, allTags])
+  const isFiltering = !isNull(conversations) || activeTags.length > 0
+  const [list, pinnedList, folderList] = useMemo(() => {
     const list: ConversationItem[] = []
     const pinnedList: ConversationItem[] = []
+    const folderList: Record<string, ConversationItem[]> = {}
+    const folderIds = folders.map((folder) => folder.id)
     const sources = isNull(conversations) ? conversationList : conversations
     for (const [id, conversation] of entries(sources)) {
-      if (id !== 'default') {
-        if (pinned.includes(id)) {
-          pinnedList.push({ id, ...conversation })
-        } else {
-          list.push({ id, ...conversation })
-        }
+      if (id === 'default') continue
+      if (!activeTags.every((tag) => conversation.tags?.includes(tag))) continue
+      if (pinned.includes(id)) {
+        pinnedList.unshift({ id, ...conversation })
+      } else if (conversation.folderId && folderIds.includes(conversation.folderId)) {
+        folderList[conversation.folderId] = [{ id, ...conversation }, ...(folderList[conversation.folderId] || [])]
+      } else {
+        list.unshift({ id, ...conversation })
       }
     }
-    return [list, pinnedList]
-  }, [conversationList, conversations, pinned])
+    return [list, pinnedList, folderList]
+  }, [conversationList, conversations, pinned, folders, activeTags])
+  const visibleIds = useMemo(() => {
+    const ids = [...pinnedList, ...list].map((item) => item.id)
+    for (const items of values(folderList)) ids.push(...items.map((item) => item.id))
+    return ids
+  }, [list, pinnedList, folderList])
+
+  const isCustomized = useCallback(
+    (id: string, setting?: ConversationSetting) => {
+      const defaultSetting = getDefaultConversationSetting(globalSetting as Setting, tools)
+      return isCustomSetting(id === currentId ? currentSetting : setting, defaultSetting)
+    },
+    [currentId, currentSetting, globalSetting, tools],
+  )
 
   const newConversation = useCallback(() => {
     const { currentId, addOrUpdate, setCurrentId } = useConversationStore.getState()
@@ -355,86 +546,368 @@ function AppSidebar() {
   }, [])
 
   const handleSearch = useCallback(
-    (keyword: string) => {
-      const result = search(keyword, conversationList)
-      setConversations(result)
+    (text: string) => {
+      const { currentId, addOrUpdate, getSearchModels } = useConversationStore.getState()
+      const { backup } = useMessageStore.getState()
+      // Sync the current conversation to the index before searching
+      if (keyword === '' && text !== '') {
+        addOrUpdate(currentId, backup())
+        setSearchModels(getSearchModels())
+      }
+      setKeyword(text)
     },
-    [conversationList],
+    [keyword],
   )
 
   const handleClearKeyword = useCallback(() => {
-    setConversations(null)
+    setKeyword('')
   }, [])
 
+  const handleToggleTag = useCallback(
+    (tag: string) => {
+      setSelectedTags(activeTags.includes(tag) ? activeTags.filter((item) => item !== tag) : [...activeTags, tag])
+    },
+    [activeTags],
+  )
+
+  const handleToggleSelectMode = useCallback(() => {
+    setSelectMode(!selectMode)
+    setSelected([])
+  }, [selectMode])
+
+  const handleSelectChange = useCallback(
+    (id: string, checked: boolean) => {
+      setSelected(checked ? union(selected, [id]) : selected.filter((item) => item !== id))
+    },
+    [selected],
+  )
+
+  const handleEditFolder = useCallback((folder?: ConversationFolder) => {
+    setEditingFolder(folder)
+    setFolderEditorOpen(true)
+  }, [])
+
+  const handleDragStart = useCallback(
+    (ev: DragEvent, id: string) => {
+      // Dragging a selected conversation moves the whole selection
+      const ids = selectMode && selected.includes(id) ? selected : [id]
+      ev.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(ids))
+      ev.dataTransfer.effectAllowed = 'move'
+    },
+    [selectMode, selected],
+  )
+
+  const handleDragOver = useCallback((ev: DragEvent, folderId: string) => {
+    if (!ev.dataTransfer.types.includes(DRAG_DATA_TYPE)) return
+    ev.preventDefault()
+    ev.dataTransfer.dropEffect = 'move'
+    setDropTarget(folderId)
+  }, [])
+
+  const handleDragLeave = useCallback((ev: DragEvent) => {
+    if (!ev.currentTarget.contains(ev.relatedTarget as Node)) setDropTarget(null)
+  }, [])
+
+  const handleDrop = useCallback((ev: DragEvent, folderId: string) => {
+    ev.preventDefault()
+    setDropTarget(null)
+    const data = ev.dataTransfer.getData(DRAG_DATA_TYPE)
+    if (!data) return false
+    const { moveToFolder } = useConversationStore.getState()
+    moveToFolder(JSON.parse(data), folderId || undefined)
+  }, [])
+
+  const handleBulkMove = useCallback(
+    (folderId?: string) => {
+      const { moveToFolder } = useConversationStore.getState()
+      moveToFolder(selected, folderId)
+      setSelected([])
+    },
+    [selected],
+  )
+
+  const handleBulkDelete = useCallback(() => {
+    const items = trashConversations(selected)
+    setSelected([])
+    toast({
+      title: t('movedToTrash', { count: items.length }),
+      action: (
+        <ToastAction altText="Undo" onClick={() => restoreTrashItems(items)}>
+          {t('undo')}
+        </ToastAction>
+      ),
+      duration: 3600,
+    })
+  }, [selected, t, toast])
+
+  const handleBulkExport = useCallback(
+    async (format: ExportFormat) => {
+      const { currentId, query } = useConversationStore.getState()
+      const { backup } = useMessageStore.getState()
+      const items = selected
+        .map((id) => ({ id, conversation: id === currentId ? backup() : query(id) }))
+        .filter((item) => item.conversation)
+      const { exportConversations } = await import('@/utils/exporter')
+      await exportConversations(items, format, t('chatAnything'))
+    },
+    [selected, t],
+  )
+
+  const renderConversation = (item: ConversationItem, pinned?: boolean) => {
+    return (
+      <ConversationItem
+        key={item.id}
+        id={item.id}
+        title={item.title}
+        isActive={currentId === item.id}
+        customized={isCustomized(item.id, item.setting)}
+        matches={matches[item.id]}
+        tags={item.tags}
+        folderId={item.folderId}
+        selectable={selectMode}
+        selected={selected.includes(item.id)}
+        onSelect={handleSelectChange}
+        onDragStart={handleDragStart}
+        onEditTags={setTagEditorId}
+        pinned={pinned}
+      ></ConversationItem>
+    )
+  }
+
   return (
     <Sidebar>
       <SidebarHeader>
         <div className="flex justify-between p-2 pb-0">
           <span className="text-lg font-semibold text-red-400">Gemini Next Chat</span>
-          <Button
-            className="h-8 w-8 [&_svg]:size-5"
-            variant="ghost"
-            size="icon"
-            title={t('newConversation')}
-            onClick={() => newConversation()}
-          >
-            <MessageSquarePlus />
-          </Button>
+          <div className="flex gap-1">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button className="h-8 w-8 [&_svg]:size-5" variant="ghost" size="icon">
+                  <EllipsisVertical />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleEditFolder()}>
+                  <FolderPlus />
+                  <span>{t('newFolder')}</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleToggleSelectMode()}>
+                  <ListChecks />
+                  <span>{t('selectConversations')}</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setImporterOpen(true)}>
+                  <FileUp />
+                  <span>{t('importConversations')}</span>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setKnowledgeBaseOpen(true)}>
+                  <Library />
+                  <span>{t('knowledgeBase')}</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setUsageOpen(true)}>
+                  <BarChart3 />
+                  <span>{t('usageDashboard')}</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setTrashOpen(true)}>
+                  <Trash2 />
+                  <span>{t('trash')}</span>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              className="h-8 w-8 [&_svg]:size-5"
+              variant="ghost"
+              size="icon"
+              title={t('newConversation')}
+              onClick={() => newConversation()}
+            >
+              <MessageSquarePlus />
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <SearchBar onSearch={handleSearch} onClear={handleClearKeyword} />
+          {keyword !== '' ? (
+            <SearchFilter value={searchFilter} models={searchModels} onChange={setSearchFilter} />
+          ) : null}
         </div>
-        <SearchBar onSearch={handleSearch} onClear={handleClearKeyword} />
+        {allTags.length > 0 ? (
+          <div className="flex flex-wrap gap-1 px-1">
+            {allTags.map((tag) => (
+              <span
+                key={tag}
+                className={cn(
+                  'cursor-pointer rounded-full border px-2 py-0.5 text-xs',
+                  activeTags.includes(tag)
+                    ? 'border-red-400 bg-red-400 text-white'
+                    : 'text-muted-foreground hover:bg-[hsl(var(--sidebar-accent))]',
+                )}
+                onClick={() => handleToggleTag(tag)}
+              >
+                {tag}
+              </span>
+            ))}
+          </div>
+        ) : null}
+        {selectMode ? (
+          <div className="flex items-center justify-between pl-2 text-sm">
+            <label className="inline-flex items-center gap-2">
+              <Checkbox
+                checked={visibleIds.length > 0 && visibleIds.every((id) => selected.includes(id))}
+                onCheckedChange={(checked) => setSelected(checked === true ? visibleIds : [])}
+              />
+              <span>{t('selectedCount', { count: selected.length })}</span>
+            </label>
+            <div className={cn('flex', selected.length === 0 ? 'pointer-events-none opacity-30' : '')}>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button className="h-8 w-8" variant="ghost" size="icon" title={t('moveToFolder')}>
+                    <FolderInput />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={() => handleBulkMove()}>
+                    <span>{t('conversationList')}</span>
+                  </DropdownMenuItem>
+                  {folders.map((folder) => (
+                    <DropdownMenuItem key={folder.id} onClick={() => handleBulkMove(folder.id)}>
+                      <span className="max-w-40 truncate">{folder.name}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button className="h-8 w-8" variant="ghost" size="icon" title={t('exportConversation')}>
+                    <Download />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  {exportFormats.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} onClick={() => handleBulkExport(format)}>
+                      <span>{label}</span>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                className="h-8 w-8 text-red-500"
+                variant="ghost"
+                size="icon"
+                title={t('delete')}
+                onClick={() => handleBulkDelete()}
+              >
+                <Trash />
+              </Button>
+              <Button
+                className="h-8 w-8"
+                variant="ghost"
+                size="icon"
+                title={t('cancel')}
+                onClick={() => handleToggleSelectMode()}
+              >
+                <X />
+              </Button>
+            </div>
+          </div>
+        ) : null}
       </SidebarHeader>
       <SidebarContent className="gap-0">
-        <SidebarGroup className="py-0">
-          <ConversationItem
-            id="default"
-            title={t('defaultConversation')}
-            isActive={currentId === 'default'}
-          ></ConversationItem>
-        </SidebarGroup>
+        {!isFiltering || matches['default'] ? (
+          <SidebarGroup className="py-0">
+            <ConversationItem
+              id="default"
+              title={t('defaultConversation')}
+              isActive={currentId === 'default'}
+              customized={isCustomized('default', conversationList['default']?.setting)}
+              matches={matches['default']}
+            ></ConversationItem>
+          </SidebarGroup>
+        ) : null}
         {pinnedList.length > 0 ? (
           <SidebarGroup className="py-0">
             <SidebarGroupLabel>{t('pinned')}</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                <SidebarMenuItem>
-                  {pinnedList.reverse().map((item) => {
-                    return (
-                      <ConversationItem
-                        key={item.id}
-                        id={item.id}
-                        title={item.title}
-                        isActive={currentId === item.id}
-                        pinned
-                      ></ConversationItem>
-                    )
-                  })}
-                </SidebarMenuItem>
+                <SidebarMenuItem>{pinnedList.map((item) => renderConversation(item, true))}</SidebarMenuItem>
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
         ) : null}
-        {list.length > 0 ? (
-          <SidebarGroup className="py-0">
+        {folders.map((folder) => {
+          const items = folderList[folder.id] || []
+          // Empty folders are hidden while searching or filtering by tags
+          if (isFiltering && items.length === 0) return null
+          const expanded = isFiltering || !folder.collapsed
+          return (
+            <SidebarGroup
+              key={folder.id}
+              className={cn('py-0', dropTarget === folder.id ? 'rounded-md bg-[hsl(var(--sidebar-accent))]' : '')}
+              onDragOver={(ev) => handleDragOver(ev, folder.id)}
+              onDragLeave={handleDragLeave}
+              onDrop={(ev) => handleDrop(ev, folder.id)}
+            >
+              <SidebarGroupLabel
+                className="cursor-pointer gap-1 pr-0 hover:bg-[hsl(var(--sidebar-accent))]"
+                onClick={() => useConversationStore.getState().toggleFolder(folder.id)}
+              >
+                <ChevronRight className={cn('transition-transform', expanded ? 'rotate-90' : '')} />
+                {expanded ? <FolderOpen /> : <FolderClosed />}
+                <span className="flex-1 truncate" title={folder.name}>
+                  {folder.name}
+                </span>
+                <span>{items.length}</span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger onClick={(ev) => ev.stopPropagation()}>
+                    <EllipsisVertical className="h-6 w-6 rounded-sm p-1 hover:bg-background" />
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent onClick={(ev) => ev.stopPropagation()}>
+                    <DropdownMenuItem onClick={() => handleEditFolder(folder)}>
+                      <PencilLine />
+                      <span>{t('rename')}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="text-red-500"
+                      onClick={() => useConversationStore.getState().removeFolder(folder.id)}
+                    >
+                      <Trash />
+                      <span>{t('deleteFolder')}</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </SidebarGroupLabel>
+              {expanded && items.length > 0 ? (
+                <SidebarGroupContent className="pl-2">
+                  <SidebarMenu>
+                    <SidebarMenuItem>{items.map((item) => renderConversation(item))}</SidebarMenuItem>
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              ) : null}
+            </SidebarGroup>
+          )
+        })}
+        {list.length > 0 || (folders.length > 0 && !isFiltering) ? (
+          <SidebarGroup
+            className={cn('min-h-16 py-0', dropTarget === '' ? 'rounded-md bg-[hsl(var(--sidebar-accent))]' : '')}
+            onDragOver={(ev) => handleDragOver(ev, '')}
+            onDragLeave={handleDragLeave}
+            onDrop={(ev) => handleDrop(ev, '')}
+          >
             <SidebarGroupLabel>{t('conversationList')}</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                <SidebarMenuItem>
-                  {list.reverse().map((item) => {
-                    return (
-                      <ConversationItem
-                        key={item.id}
-                        id={item.id}
-                        title={item.title}
-                        isActive={currentId === item.id}
-                      ></ConversationItem>
-                    )
-                  })}
-                </SidebarMenuItem>
+                <SidebarMenuItem>{list.map((item) => renderConversation(item))}</SidebarMenuItem>
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
         ) : null}
       </SidebarContent>
+      <FolderEditor open={folderEditorOpen} folder={editingFolder} onClose={() => setFolderEditorOpen(false)} />
+      <TagEditor open={tagEditorId !== ''} id={tagEditorId} allTags={allTags} onClose={() => setTagEditorId('')} />
+      <ConversationImporter open={importerOpen} onClose={() => setImporterOpen(false)} />
+      <TrashBin open={trashOpen} onClose={() => setTrashOpen(false)} />
+      <UsageDashboard open={usageOpen} onClose={() => setUsageOpen(false)} />
+      <KnowledgeBase open={knowledgeBaseOpen} onClose={() => setKnowledgeBaseOpen(false)} />
     </Sidebar>
   )
 }
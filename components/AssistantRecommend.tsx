@@ -54,7 +54,7 @@ function AssistantRecommend() {
       const response = await fetch(assistantMarketUrl.getAssistantUrl(identifier, settingStore.lang))
       const data: AssistantDetail = await response.json()
       clearMessage()
-      instruction(data.config.systemRole, data.meta.title)
+      instruction(data.config.systemRole, data.meta.title, identifier)
     },
     [settingStore.lang, settingStore.assistantIndexUrl],
   )
@@ -0,0 +1,72 @@
+'use client'
+import dynamic from 'next/dynamic'
+import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Bot, CircleCheck } from 'lucide-react'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import BubblesLoading from '@/components/BubblesLoading'
+import Button from '@/components/Button'
+import { cn } from '@/utils'
+
+export interface CompareAnswer {
+  model: string
+  content: string
+  status: 'loading' | 'done' | 'error'
+  usage?: MessageUsage
+}
+
+type Props = {
+  answers: CompareAnswer[]
+  onSelect: (index: number) => void
+}
+
+const Magicdown = dynamic(() => import('@/components/Magicdown'))
+
+function CompareAnswers({ answers, onSelect }: Props) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex gap-3 p-4 pb-1">
+      <Avatar className="h-8 w-8">
+        <AvatarFallback className="bg-red-300 text-white">
+          <Bot className="h-5 w-5" />
+        </AvatarFallback>
+      </Avatar>
+      <div
+        className={cn('grid flex-1 gap-2 overflow-x-auto', answers.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2')}
+      >
+        {answers.map((answer, idx) => {
+          return (
+            <div key={idx} className="flex min-w-0 flex-col rounded-md border p-2">
+              <div className="mb-2 truncate border-b pb-1 text-xs font-medium text-slate-500" title={answer.model}>
+                {answer.model}
+              </div>
+              <div className="flex-1 overflow-x-auto">
+                {answer.status === 'loading' && answer.content === '' ? (
+                  <BubblesLoading />
+                ) : answer.status === 'error' ? (
+                  <div className="break-words text-sm text-red-500">{answer.content}</div>
+                ) : (
+                  <Magicdown>{answer.content}</Magicdown>
+                )}
+              </div>
+              <div className="mt-2 flex justify-end">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={answer.status !== 'done' || answer.content === ''}
+                  onClick={() => onSelect(idx)}
+                >
+                  <CircleCheck className="mr-1 h-4 w-4" />
+                  {t('useThisAnswer')}
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default memo(CompareAnswers)
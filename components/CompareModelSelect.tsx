@@ -0,0 +1,58 @@
+'use client'
+import { memo, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, X } from 'lucide-react'
+import ModelSelect from '@/components/ModelSelect'
+import IconButton from '@/components/IconButton'
+import { useMessageStore } from '@/store/chat'
+
+const MAX_COMPARE_MODELS = 3
+
+function CompareModelSelect() {
+  const { t } = useTranslation()
+  const compareModels = useMessageStore((state) => state.compareModels)
+
+  const handleChange = useCallback((index: number, model: string) => {
+    const { compareModels, setCompareModels } = useMessageStore.getState()
+    setCompareModels(compareModels.map((item, idx) => (idx === index ? model : item)))
+  }, [])
+
+  const handleAdd = useCallback(() => {
+    const { compareModels, setCompareModels } = useMessageStore.getState()
+    setCompareModels([...compareModels, compareModels[compareModels.length - 1]])
+  }, [])
+
+  const handleRemove = useCallback((index: number) => {
+    const { compareModels, setCompareModels } = useMessageStore.getState()
+    setCompareModels(compareModels.filter((_, idx) => idx !== index))
+  }, [])
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 pb-2 text-xs text-slate-500">
+      <span className="mr-1">{t('compareModels')}</span>
+      {compareModels.map((model, idx) => {
+        return (
+          <div key={idx} className="flex items-center rounded-md border pl-2">
+            <ModelSelect
+              className="h-6 border-none px-0 py-0 text-xs"
+              defaultModel={model}
+              onChange={(value) => handleChange(idx, value)}
+            />
+            {compareModels.length > 2 ? (
+              <IconButton className="p-1" title={t('delete')} onClick={() => handleRemove(idx)}>
+                <X className="h-3 w-3" />
+              </IconButton>
+            ) : null}
+          </div>
+        )
+      })}
+      {compareModels.length < MAX_COMPARE_MODELS ? (
+        <IconButton className="p-1" title={t('addModel')} onClick={() => handleAdd()}>
+          <Plus className="h-4 w-4" />
+        </IconButton>
+      ) : null}
+    </div>
+  )
+}
+
+export default memo(CompareModelSelect)
@@ -0,0 +1,198 @@
+'use client'
+import { useState, useEffect, useMemo, useCallback, memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { DatabaseZap, LoaderCircle } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import { useMessageStore } from '@/store/chat'
+import { useSettingStore } from '@/store/setting'
+import CacheManager from '@/utils/CacheManager'
+import {
+  CACHE_TTL_SECONDS,
+  getCacheableMessages,
+  getCacheContentHash,
+  isCacheAvailable,
+  isCacheExpired,
+} from '@/utils/contextCache'
+import { formatTokenCount } from '@/utils/tokenizer'
+import { encodeToken } from '@/utils/signature'
+import { GEMINI_API_BASE_URL } from '@/constant/urls'
+import { cn } from '@/utils'
+
+type Props = {
+  model: string
+  // The requests with plugins, the voice prompt or the user memories are sent without the cache
+  isBypassed: () => boolean
+}
+
+// Remind the user to refresh the cache in the last five minutes
+const EXPIRING_TIME = 5 * 60 * 1000
+
+function createCacheManager() {
+  const { apiKey, apiProxy, password } = useSettingStore.getState()
+  return new CacheManager(
+    apiKey !== ''
+      ? { apiKey, baseUrl: apiProxy || GEMINI_API_BASE_URL }
+      : { token: encodeToken(password), baseUrl: '/api/google' },
+  )
+}
+
+function ContextCache({ model, isBypassed }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const messages = useMessageStore((state) => state.messages)
+  const systemInstruction = useMessageStore((state) => state.systemInstruction)
+  const cache = useMessageStore((state) => state.cache)
+  const [now, setNow] = useState<number>(Date.now())
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const cacheableMessages = useMemo(() => getCacheableMessages(messages), [messages])
+  // `now` keeps the expiration status up to date
+  const isAvailable = useMemo(
+    () => isCacheAvailable(cache, model, messages, systemInstruction),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cache, model, messages, systemInstruction, now],
+  )
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const bypassed = useMemo(() => isBypassed(), [isBypassed, now])
+  const remainingTime = useMemo(() => (cache ? new Date(cache.expireTime).getTime() - now : 0), [cache, now])
+
+  const handleError = useCallback(
+    (err: unknown) => {
+      toast({
+        title: t('contextCacheFailed'),
+        description: err instanceof Error ? err.message : String(err),
+      })
+    },
+    [t, toast],
+  )
+
+  const handleCreate = useCallback(async () => {
+    const { messages, systemInstruction, cache, updateCache } = useMessageStore.getState()
+    const cacheMessages = getCacheableMessages(messages)
+    if (cacheMessages.length === 0) return false
+    setIsLoading(true)
+    try {
+      const cacheManager = createCacheManager()
+      if (cache && !isCacheExpired(cache)) {
+        await cacheManager.delete(cache.name).catch(() => {})
+      }
+      const result = await cacheManager.create({
+        model,
+        contents: cacheMessages.map((message) => ({ role: message.role, parts: message.parts })),
+        systemInstruction,
+        ttlSeconds: CACHE_TTL_SECONDS,
+      })
+      updateCache({
+        name: result.name as string,
+        model,
+        expireTime: result.expireTime as string,
+        systemInstruction,
+        messageIds: cacheMessages.map((message) => message.id),
+        contentHash: getCacheContentHash(cacheMessages),
+        tokenCount: result.usageMetadata?.totalTokenCount,
+      })
+      setNow(Date.now())
+    } catch (err) {
+      handleError(err)
+    }
+    setIsLoading(false)
+  }, [model, handleError])
+
+  const handleRefresh = useCallback(async () => {
+    const { cache, updateCache } = useMessageStore.getState()
+    if (!cache) return false
+    setIsLoading(true)
+    try {
+      const cacheManager = createCacheManager()
+      const result = await cacheManager.update(cache.name, CACHE_TTL_SECONDS)
+      updateCache({ ...cache, expireTime: result.expireTime as string })
+      setNow(Date.now())
+    } catch (err) {
+      handleError(err)
+    }
+    setIsLoading(false)
+  }, [handleError])
+
+  const handleDelete = useCallback(async () => {
+    const { cache, updateCache } = useMessageStore.getState()
+    if (!cache) return false
+    setIsLoading(true)
+    if (!isCacheExpired(cache)) {
+      try {
+        const cacheManager = createCacheManager()
+        await cacheManager.delete(cache.name)
+      } catch (err) {
+        handleError(err)
+      }
+    }
+    updateCache()
+    setIsLoading(false)
+  }, [handleError])
+
+  useEffect(() => {
+    if (!cache) return
+    const timer = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(timer)
+  }, [cache])
+
+  if (cacheableMessages.length === 0 && !cache) return null
+
+  return (
+    <Popover onOpenChange={(open) => open && setNow(Date.now())}>
+      <PopoverTrigger asChild>
+        <div
+          className={cn(
+            'box-border flex h-8 w-8 cursor-pointer items-center justify-center rounded-full p-1.5 text-slate-800 hover:bg-secondary/80 dark:text-slate-600 max-sm:h-7 max-sm:w-7',
+            isAvailable && !bypassed ? (remainingTime < EXPIRING_TIME ? 'text-amber-500' : 'text-green-600') : '',
+          )}
+          title={t('contextCache')}
+        >
+          <DatabaseZap />
+        </div>
+      </PopoverTrigger>
+      <PopoverContent className="mb-1 w-64 text-sm">
+        <h3 className="mb-1 font-medium">{t('contextCache')}</h3>
+        <p className="mb-3 text-xs text-slate-500">
+          {!cache
+            ? t('contextCacheDescription')
+            : isAvailable && bypassed
+              ? t('contextCacheBypassed')
+              : isAvailable
+                ? t('contextCacheActive', {
+                    minutes: Math.max(1, Math.ceil(remainingTime / 60000)),
+                    tokens: formatTokenCount(cache.tokenCount || 0),
+                  })
+                : isCacheExpired(cache)
+                  ? t('contextCacheExpired')
+                  : t('contextCacheOutdated')}
+        </p>
+        <div className="flex gap-2">
+          {isAvailable ? (
+            <Button className="flex-1" size="sm" disabled={isLoading} onClick={() => handleRefresh()}>
+              {isLoading ? <LoaderCircle className="mr-1 h-4 w-4 animate-spin" /> : null}
+              {t('refreshCache')}
+            </Button>
+          ) : (
+            <Button
+              className="flex-1"
+              size="sm"
+              disabled={isLoading || cacheableMessages.length === 0}
+              onClick={() => handleCreate()}
+            >
+              {isLoading ? <LoaderCircle className="mr-1 h-4 w-4 animate-spin" /> : null}
+              {t('createCache')}
+            </Button>
+          )}
+          {cache ? (
+            <Button className="flex-1" size="sm" variant="outline" disabled={isLoading} onClick={() => handleDelete()}>
+              {t('deleteCache')}
+            </Button>
+          ) : null}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default memo(ContextCache)
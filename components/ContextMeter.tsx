@@ -0,0 +1,50 @@
+'use client'
+import { memo, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { formatTokenCount } from '@/utils/tokenizer'
+import { cn } from '@/utils'
+
+type Props = {
+  used: number
+  limit: number
+  className?: string
+}
+
+function ContextMeter({ used, limit, className }: Props) {
+  const { t } = useTranslation()
+  const percent = useMemo(() => (limit > 0 ? Math.round((used / limit) * 100) : 0), [used, limit])
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className={cn('flex h-8 cursor-default flex-col justify-center px-1 max-sm:h-7', className)}>
+            <span
+              className={cn(
+                'font-mono text-[10px] leading-3',
+                percent >= 100 ? 'text-red-500' : percent >= 80 ? 'text-amber-500' : 'text-slate-500',
+              )}
+            >
+              {formatTokenCount(used)}
+            </span>
+            <div className="mt-0.5 h-0.5 w-full rounded-full bg-slate-200 dark:bg-slate-700">
+              <div
+                className={cn(
+                  'h-0.5 rounded-full',
+                  percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-slate-500',
+                )}
+                style={{ width: `${Math.min(percent, 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent className="mb-1 max-w-48">
+          {t('contextUsed', { used: formatTokenCount(used), limit: formatTokenCount(limit), percent })}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+export default memo(ContextMeter)
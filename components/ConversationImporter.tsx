@@ -0,0 +1,164 @@
+'use client'
+import { memo, useCallback, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FileUp, LoaderCircle } from 'lucide-react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useConversationStore } from '@/store/conversation'
+import { parseImportFile, type ImportedConversation, type ImportSource } from '@/utils/importer'
+import { customAlphabet } from 'nanoid'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+const sourceNames: Record<ImportSource, string> = {
+  json: 'JSON',
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  aistudio: 'AI Studio',
+  markdown: 'Markdown',
+}
+
+function ConversationImporter({ open, onClose }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const folders = useConversationStore((state) => state.folders)
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [conversations, setConversations] = useState<ImportedConversation[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [folderId, setFolderId] = useState<string>('')
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+
+  const handleClose = useCallback(() => {
+    setConversations([])
+    setSelected([])
+    onClose()
+  }, [onClose])
+
+  const handleFileChange = useCallback(
+    async (files: FileList | null) => {
+      if (!files || files.length === 0) return false
+      setIsLoading(true)
+      const list: ImportedConversation[] = []
+      for (const file of Array.from(files)) {
+        try {
+          list.push(...(await parseImportFile(file)))
+        } catch (err) {
+          toast({
+            title: t('importFailed', { name: file.name }),
+            description: err instanceof Error ? err.message : String(err),
+          })
+        }
+      }
+      const result = list.filter((item) => item.conversation.messages.length > 0)
+      setConversations(result)
+      setSelected(result.map((item) => item.key))
+      setIsLoading(false)
+      if (fileRef.current) fileRef.current.value = ''
+    },
+    [t, toast],
+  )
+
+  const handleSelectChange = useCallback(
+    (key: string, checked: boolean) => {
+      setSelected(checked ? [...selected, key] : selected.filter((item) => item !== key))
+    },
+    [selected],
+  )
+
+  const handleImport = useCallback(() => {
+    const { addOrUpdate } = useConversationStore.getState()
+    // Import the oldest conversation first so that the list keeps the original order
+    const list = conversations
+      .filter((item) => selected.includes(item.key))
+      .sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0))
+    for (const item of list) {
+      addOrUpdate(nanoid(), { ...item.conversation, folderId: folderId || undefined })
+    }
+    toast({ title: t('importSuccess', { count: list.length }) })
+    handleClose()
+  }, [conversations, selected, folderId, t, toast, handleClose])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={handleClose}
+      title={t('importConversations')}
+      description={t('importConversationsDescription')}
+      footer={
+        <Button className="flex-1" disabled={selected.length === 0} onClick={() => handleImport()}>
+          {t('importSelected', { count: selected.length })}
+        </Button>
+      }
+    >
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,.zip,.md,.markdown,application/json"
+        multiple
+        hidden
+        onChange={(ev) => handleFileChange(ev.target.files)}
+      />
+      <div className="flex gap-2">
+        <Button className="flex-1" variant="outline" disabled={isLoading} onClick={() => fileRef.current?.click()}>
+          {isLoading ? <LoaderCircle className="mr-1 h-4 w-4 animate-spin" /> : <FileUp className="mr-1 h-4 w-4" />}
+          {t('selectImportFile')}
+        </Button>
+        {folders.length > 0 ? (
+          <Select value={folderId || 'root'} onValueChange={(value) => setFolderId(value === 'root' ? '' : value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="root">{t('conversationList')}</SelectItem>
+              {folders.map((folder) => (
+                <SelectItem key={folder.id} value={folder.id}>
+                  {folder.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : null}
+      </div>
+      {conversations.length > 0 ? (
+        <>
+          <label className="mt-3 flex items-center gap-2 border-b pb-2 text-sm font-medium">
+            <Checkbox
+              checked={selected.length === conversations.length}
+              onCheckedChange={(checked) => setSelected(checked === true ? conversations.map((item) => item.key) : [])}
+            />
+            <span>{t('selectedCount', { count: selected.length })}</span>
+          </label>
+          <ScrollArea className="h-[300px] w-full">
+            {conversations.map((item) => (
+              <label key={item.key} className="flex items-center gap-2 border-b py-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(item.key)}
+                  onCheckedChange={(checked) => handleSelectChange(item.key, checked === true)}
+                />
+                <span className="flex-1 truncate" title={item.title}>
+                  {item.title || t('chatAnything')}
+                </span>
+                <span className="shrink-0 text-xs text-slate-500">
+                  {t('messageCount', { count: item.conversation.messages.length })}
+                  {item.createdAt ? ` · ${new Date(item.createdAt).toLocaleDateString()}` : ''}
+                </span>
+                <span className="shrink-0 rounded bg-secondary px-1 text-xs">{sourceNames[item.source]}</span>
+              </label>
+            ))}
+          </ScrollArea>
+        </>
+      ) : null}
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(ConversationImporter)
@@ -0,0 +1,363 @@
+'use client'
+import { memo, useCallback, useEffect, useMemo, useState } from 'react'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { useTranslation } from 'react-i18next'
+import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import ModelSelect from '@/components/ModelSelect'
+import { useMessageStore } from '@/store/chat'
+import { useSettingStore } from '@/store/setting'
+import { usePluginStore } from '@/store/plugin'
+import { getDefaultConversationSetting, diffConversationSetting } from '@/utils/setting'
+import { memoryStrategyNames } from '@/utils/memory'
+import { OFFICAL_PLUGINS } from '@/plugins'
+import { keys, values } from 'lodash-es'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+const formSchema = z.object({
+  model: z.string(),
+  topP: z.number(),
+  topK: z.number(),
+  temperature: z.number(),
+  maxOutputTokens: z.number(),
+  safety: z.enum(['none', 'low', 'middle', 'high']),
+  memoryStrategy: z.enum(['slidingWindow', 'rollingSummary', 'summaryLastN', 'hybrid']),
+  memoryWindow: z.number().gte(2).lte(50),
+  userMemory: z.boolean(),
+  plugins: z.array(z.string()),
+})
+
+const officialPluginNames: Record<string, string> = {
+  [OFFICAL_PLUGINS.SEARCH]: 'webSearch',
+  [OFFICAL_PLUGINS.READER]: 'webReader',
+  [OFFICAL_PLUGINS.ARXIV]: 'arxivSearch',
+  [OFFICAL_PLUGINS.WEATHER]: 'realTimeWeather',
+  [OFFICAL_PLUGINS.TIME]: 'currentTime',
+  [OFFICAL_PLUGINS.UNSPLASH]: 'Unsplash',
+}
+
+function ConversationSetting({ open, onClose }: Props) {
+  const { t } = useTranslation()
+  const installed = usePluginStore((state) => state.installed)
+  const [summaryContent, setSummaryContent] = useState<string>('')
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+  })
+  const memoryStrategy = form.watch('memoryStrategy')
+  const pluginOptions = useMemo(() => {
+    const options = keys(officialPluginNames).map((id) => ({ id, title: t(officialPluginNames[id]) }))
+    for (const [id, plugin] of Object.entries(installed)) {
+      if (!values(OFFICAL_PLUGINS).includes(id)) {
+        options.push({ id, title: plugin.info?.title || id })
+      }
+    }
+    return options
+  }, [installed, t])
+
+  const getDefaultValues = useCallback(() => {
+    const { tools } = usePluginStore.getState()
+    return getDefaultConversationSetting(useSettingStore.getState(), tools)
+  }, [])
+
+  const handleSubmit = useCallback(
+    (values: z.infer<typeof formSchema>) => {
+      const { summary, updateSetting, summarize } = useMessageStore.getState()
+      updateSetting(diffConversationSetting(values, getDefaultValues()))
+      const content = summaryContent.trim()
+      if (content !== summary.content) {
+        // The summarized messages are sent to the model again once the summary is cleared
+        summarize(content === '' ? [] : summary.ids, content)
+      }
+      onClose()
+    },
+    [getDefaultValues, summaryContent, onClose],
+  )
+
+  const handleReset = useCallback(() => {
+    const { updateSetting } = useMessageStore.getState()
+    updateSetting({})
+    form.reset(getDefaultValues())
+  }, [form, getDefaultValues])
+
+  useEffect(() => {
+    if (open) {
+      const { setting, summary } = useMessageStore.getState()
+      form.reset({ ...getDefaultValues(), ...setting })
+      setSummaryContent(summary.content)
+    }
+  }, [open, form, getDefaultValues])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={onClose}
+      title={t('conversationSetting')}
+      description={t('conversationSettingDescription')}
+      footer={
+        <>
+          <Button className="flex-1" type="submit" onClick={form.handleSubmit(handleSubmit)}>
+            {t('save')}
+          </Button>
+          <Button className="flex-1 max-sm:mt-2" variant="outline" onClick={() => handleReset()}>
+            {t('followGlobalSetting')}
+          </Button>
+        </>
+      }
+    >
+      <Form {...form}>
+        <form className="grid w-full gap-4 px-4 py-4 max-sm:px-0" onSubmit={form.handleSubmit(handleSubmit)}>
+          <FormField
+            control={form.control}
+            name="model"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">{t('llmModel')}</FormLabel>
+                <FormControl>
+                  <div className="col-span-3">
+                    <ModelSelect defaultModel={field.value} onChange={field.onChange} />
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="topP"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">Top-P</FormLabel>
+                <FormControl>
+                  <div className="col-span-3 flex h-10">
+                    <Slider
+                      className="flex-1"
+                      value={[field.value]}
+                      max={1}
+                      step={0.01}
+                      onValueChange={(values) => field.onChange(values[0])}
+                    />
+                    <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="topK"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">Top-K</FormLabel>
+                <FormControl>
+                  <div className="col-span-3 flex h-10">
+                    <Slider
+                      className="flex-1"
+                      value={[field.value]}
+                      max={128}
+                      step={1}
+                      onValueChange={(values) => field.onChange(values[0])}
+                    />
+                    <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="temperature"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">{t('temperature')}</FormLabel>
+                <FormControl>
+                  <div className="col-span-3 flex h-10">
+                    <Slider
+                      className="flex-1"
+                      value={[field.value]}
+                      max={2}
+                      step={0.1}
+                      onValueChange={(values) => field.onChange(values[0])}
+                    />
+                    <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxOutputTokens"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">{t('maxOutputTokens')}</FormLabel>
+                <FormControl>
+                  <div className="col-span-3 flex h-10">
+                    <Slider
+                      className="flex-1"
+                      value={[field.value]}
+                      max={8192}
+                      step={1}
+                      onValueChange={(values) => field.onChange(values[0])}
+                    />
+                    <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="safety"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">{t('safety')}</FormLabel>
+                <FormControl>
+                  <div className="col-span-3 flex h-10">
+                    <RadioGroup
+                      className="grid w-full grid-cols-4"
+                      value={field.value}
+                      onValueChange={(value) => field.onChange(value)}
+                    >
+                      {['none', 'low', 'middle', 'high'].map((level) => {
+                        return (
+                          <div key={level} className="flex items-center space-x-2">
+                            <RadioGroupItem value={level} id={`conversation-${level}`} />
+                            <Label htmlFor={`conversation-${level}`}>{t(level)}</Label>
+                          </div>
+                        )
+                      })}
+                    </RadioGroup>
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="memoryStrategy"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">{t('memoryStrategy')}</FormLabel>
+                <FormControl>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="col-span-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {memoryStrategyNames.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {t(`memoryStrategies.${name}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          {memoryStrategy === 'slidingWindow' || memoryStrategy === 'summaryLastN' ? (
+            <FormField
+              control={form.control}
+              name="memoryWindow"
+              render={({ field }) => (
+                <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                  <FormLabel className="text-right">{t('memoryWindow')}</FormLabel>
+                  <FormControl>
+                    <div className="col-span-3 flex h-10">
+                      <Slider
+                        className="flex-1"
+                        value={[field.value]}
+                        min={2}
+                        max={50}
+                        step={1}
+                        onValueChange={(values) => field.onChange(values[0])}
+                      />
+                      <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                    </div>
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          ) : null}
+          {memoryStrategy !== 'slidingWindow' ? (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="mt-2 text-right" htmlFor="conversation-summary">
+                {t('conversationSummary')}
+              </Label>
+              <div className="col-span-3 grid gap-1">
+                <Textarea
+                  id="conversation-summary"
+                  className="max-h-48 min-h-20"
+                  value={summaryContent}
+                  placeholder={t('conversationSummaryPlaceholder')}
+                  onChange={(ev) => setSummaryContent(ev.target.value)}
+                />
+                <p className="text-xs text-slate-500">{t('conversationSummaryDescription')}</p>
+              </div>
+            </div>
+          ) : null}
+          <FormField
+            control={form.control}
+            name="userMemory"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                <FormLabel className="text-right">{t('userMemory')}</FormLabel>
+                <FormControl>
+                  <>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    <span className="text-center">{field.value ? t('settingEnable') : t('settingDisable')}</span>
+                  </>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="plugins"
+            render={({ field }) => (
+              <FormItem className="grid grid-cols-4 items-start gap-4 space-y-0">
+                <FormLabel className="mt-2 text-right">{t('plugin')}</FormLabel>
+                <FormControl>
+                  <div className="col-span-3 grid grid-cols-2 gap-2">
+                    {pluginOptions.map((option) => {
+                      return (
+                        <div key={option.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`conversation-${option.id}`}
+                            checked={field.value?.includes(option.id)}
+                            onCheckedChange={(checkedState) => {
+                              const plugins = (field.value || []).filter((id) => id !== option.id)
+                              field.onChange(checkedState === true ? [...plugins, option.id] : plugins)
+                            }}
+                          />
+                          <Label className="truncate" htmlFor={`conversation-${option.id}`} title={option.title}>
+                            {option.title}
+                          </Label>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </form>
+      </Form>
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(ConversationSetting)
@@ -0,0 +1,63 @@
+'use client'
+import { memo, useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Input } from '@/components/ui/input'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useConversationStore } from '@/store/conversation'
+import { customAlphabet } from 'nanoid'
+
+type Props = {
+  open: boolean
+  // Create a new folder when there is no folder
+  folder?: ConversationFolder
+  onClose: () => void
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+function FolderEditor({ open, folder, onClose }: Props) {
+  const { t } = useTranslation()
+  const [name, setName] = useState<string>('')
+
+  const handleSubmit = useCallback(() => {
+    const { addFolder, renameFolder } = useConversationStore.getState()
+    const folderName = name.trim()
+    if (folderName === '') return false
+    if (folder) {
+      renameFolder(folder.id, folderName)
+    } else {
+      addFolder({ id: nanoid(), name: folderName })
+    }
+    onClose()
+  }, [name, folder, onClose])
+
+  useEffect(() => {
+    if (open) setName(folder ? folder.name : '')
+  }, [open, folder])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={onClose}
+      title={folder ? t('renameFolder') : t('newFolder')}
+      footer={
+        <Button className="flex-1" disabled={name.trim() === ''} onClick={() => handleSubmit()}>
+          {t('save')}
+        </Button>
+      }
+    >
+      <Input
+        value={name}
+        placeholder={t('folderNamePlaceholder')}
+        autoFocus
+        onChange={(ev) => setName(ev.target.value)}
+        onKeyDown={(ev) => {
+          if (ev.key === 'Enter' && !ev.nativeEvent.isComposing) handleSubmit()
+        }}
+      />
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(FolderEditor)
@@ -0,0 +1,72 @@
+'use client'
+import { useState, memo } from 'react'
+import { ChevronRight } from 'lucide-react'
+import { cn } from '@/utils'
+import { isArray, isPlainObject, isString, isNull, entries } from 'lodash-es'
+
+type Props = {
+  data: unknown
+  name?: string
+  defaultExpandDepth?: number
+  depth?: number
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (isString(value)) {
+    return <span className="break-all text-green-600 dark:text-green-400">&quot;{value}&quot;</span>
+  } else if (isNull(value)) {
+    return <span className="text-slate-400">null</span>
+  } else if (typeof value === 'boolean') {
+    return <span className="text-purple-600 dark:text-purple-400">{`${value}`}</span>
+  }
+  return <span className="text-blue-600 dark:text-blue-400">{`${value}`}</span>
+}
+
+function JsonTree({ data, name, defaultExpandDepth = 2, depth = 0 }: Props) {
+  const [expanded, setExpanded] = useState<boolean>(depth < defaultExpandDepth)
+  const isList = isArray(data)
+  const label = name !== undefined ? <span className="text-slate-700 dark:text-slate-300">{name}: </span> : null
+
+  if (!isList && !isPlainObject(data)) {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonValue value={data} />
+      </div>
+    )
+  }
+
+  const children = entries(data as Record<string, unknown>)
+  const [open, close] = isList ? ['[', ']'] : ['{', '}']
+  return (
+    <div className="pl-4">
+      <span className="-ml-4 inline-flex cursor-pointer items-center" onClick={() => setExpanded(!expanded)}>
+        <ChevronRight className={cn('h-4 w-4 text-slate-400 transition-transform', expanded ? 'rotate-90' : '')} />
+        {label}
+        <span className="text-slate-500">{open}</span>
+        {!expanded ? (
+          <span className="text-slate-400">
+            {` ${children.length} ${isList ? 'items' : 'keys'} `}
+            {close}
+          </span>
+        ) : null}
+      </span>
+      {expanded ? (
+        <>
+          {children.map(([key, value]) => (
+            <JsonTree
+              key={key}
+              data={value}
+              name={isList ? undefined : key}
+              defaultExpandDepth={defaultExpandDepth}
+              depth={depth + 1}
+            />
+          ))}
+          <div className="text-slate-500">{close}</div>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+export default memo(JsonTree)
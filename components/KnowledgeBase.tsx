@@ -0,0 +1,247 @@
+'use client'
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Trash2, FileUp, LoaderCircle } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useKnowledgeStore } from '@/store/knowledge'
+import { useMessageStore } from '@/store/chat'
+import { addKnowledgeFile, removeKnowledgeFile, removeKnowledgeBase, knowledgeFileTypes } from '@/utils/knowledge'
+import { formatSize } from '@/utils/common'
+import { EmbeddingModels, LocalEmbeddingModel } from '@/constant/model'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+const embeddingModelOptions = [...EmbeddingModels, LocalEmbeddingModel]
+
+function KnowledgeBase({ open, onClose }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const knowledgeBases = useKnowledgeStore((state) => state.knowledgeBases)
+  const knowledgeBaseIds = useMessageStore((state) => state.knowledgeBaseIds)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [currentId, setCurrentId] = useState<string>('')
+  const [newName, setNewName] = useState<string>('')
+  const [newModel, setNewModel] = useState<string>(EmbeddingModels[0])
+  const [indexingFiles, setIndexingFiles] = useState<string[]>([])
+
+  const current = useMemo(() => knowledgeBases.find((item) => item.id === currentId), [knowledgeBases, currentId])
+
+  const handleCreate = useCallback(() => {
+    const name = newName.trim()
+    if (name === '') return
+    const knowledgeBase = useKnowledgeStore.getState().create(name, newModel)
+    setCurrentId(knowledgeBase.id)
+    setNewName('')
+  }, [newName, newModel])
+
+  const handleRemove = useCallback(async (knowledgeBase: KnowledgeBase) => {
+    const { knowledgeBaseIds, setKnowledgeBases } = useMessageStore.getState()
+    setKnowledgeBases(knowledgeBaseIds.filter((id) => id !== knowledgeBase.id))
+    await removeKnowledgeBase(knowledgeBase)
+    setCurrentId('')
+  }, [])
+
+  const handleAttach = useCallback((id: string, attached: boolean) => {
+    const { knowledgeBaseIds, setKnowledgeBases } = useMessageStore.getState()
+    const ids = knowledgeBaseIds.filter((item) => item !== id)
+    setKnowledgeBases(attached ? [...ids, id] : ids)
+  }, [])
+
+  const handleUpload = useCallback(
+    async (files: FileList | null) => {
+      if (!current || !files) return
+      const fileList = Array.from(files)
+      setIndexingFiles(fileList.map((file) => file.name))
+      // The files are indexed one by one to keep the embedding requests within the rate limit
+      for (const file of fileList) {
+        try {
+          const { emptyPages } = await addKnowledgeFile(current, file)
+          if (emptyPages) {
+            toast({
+              title: t('knowledgeFilePartial', { name: file.name }),
+              description: t('knowledgeEmptyPages', { pages: emptyPages.join(', ') }),
+            })
+          }
+        } catch (err) {
+          if (err instanceof Error) {
+            toast({ title: t('knowledgeFileFailed', { name: file.name }), description: err.message })
+          }
+        } finally {
+          setIndexingFiles((names) => names.filter((name) => name !== file.name))
+        }
+      }
+    },
+    [current, toast, t],
+  )
+
+  useEffect(() => {
+    if (open && !current && knowledgeBases.length > 0) setCurrentId(knowledgeBases[0].id)
+  }, [open, current, knowledgeBases])
+
+  return (
+    <ResponsiveDialog
+      className="sm:max-w-2xl"
+      open={open}
+      onClose={onClose}
+      title={t('knowledgeBase')}
+      description={t('knowledgeBaseDescription')}
+    >
+      <div className="grid gap-4">
+        {knowledgeBases.length > 0 ? (
+          <div className="flex items-center gap-2">
+            <Select value={currentId} onValueChange={setCurrentId}>
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {knowledgeBases.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {current ? (
+              <>
+                <Label className="inline-flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={knowledgeBaseIds.includes(current.id)}
+                    onCheckedChange={(checked) => handleAttach(current.id, checked)}
+                  />
+                  {t('useInConversation')}
+                </Label>
+                <Button
+                  className="h-8 w-8 hover:text-red-500"
+                  variant="ghost"
+                  size="icon"
+                  title={t('deleteKnowledgeBase')}
+                  onClick={() => handleRemove(current)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            ) : null}
+          </div>
+        ) : null}
+        {current ? (
+          <>
+            <ScrollArea className="h-[240px] w-full">
+              {current.files.length > 0 || indexingFiles.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('fileName')}</TableHead>
+                      <TableHead className="text-right">{t('fileSize')}</TableHead>
+                      <TableHead className="text-right">{t('chunks')}</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {current.files.map((file) => (
+                      <TableRow key={file.id}>
+                        <TableCell className="max-w-60 truncate" title={file.name}>
+                          {file.name}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatSize(file.size)}</TableCell>
+                        <TableCell className="text-right font-mono">{file.chunkCount}</TableCell>
+                        <TableCell className="py-1">
+                          <Button
+                            className="h-8 w-8 hover:text-red-500"
+                            variant="ghost"
+                            size="icon"
+                            title={t('delete')}
+                            onClick={() => removeKnowledgeFile(current.id, file.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {indexingFiles.map((name) => (
+                      <TableRow key={name} className="text-slate-500">
+                        <TableCell className="max-w-60 truncate">{name}</TableCell>
+                        <TableCell colSpan={3} className="text-right">
+                          <span className="inline-flex items-center">
+                            <LoaderCircle className="mr-1 h-4 w-4 animate-spin" />
+                            {t('indexing')}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="py-8 text-center text-sm text-slate-500">{t('noKnowledgeFiles')}</p>
+              )}
+            </ScrollArea>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-slate-500">
+                {t('embeddingModelName', { model: current.embeddingModel })}
+              </span>
+              <Button
+                className="h-8"
+                variant="secondary"
+                disabled={indexingFiles.length > 0}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <FileUp className="mr-1 h-4 w-4" />
+                {t('addKnowledgeFiles')}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                multiple
+                accept={knowledgeFileTypes.join(',')}
+                onChange={(ev) => {
+                  handleUpload(ev.target.files)
+                  ev.target.value = ''
+                }}
+              />
+            </div>
+          </>
+        ) : null}
+        <div className="flex gap-2 border-t pt-4">
+          <Input
+            className="h-8 flex-1"
+            value={newName}
+            placeholder={t('knowledgeBaseName')}
+            onChange={(ev) => setNewName(ev.target.value)}
+            onKeyDown={(ev) => {
+              if (ev.key === 'Enter') handleCreate()
+            }}
+          />
+          <Select value={newModel} onValueChange={setNewModel}>
+            <SelectTrigger className="h-8 w-52" title={t('embeddingModel')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {embeddingModelOptions.map((model) => (
+                <SelectItem key={model} value={model}>
+                  {model === LocalEmbeddingModel ? t('localEmbedding') : model}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button className="h-8" variant="secondary" disabled={newName.trim() === ''} onClick={handleCreate}>
+            <Plus className="mr-1 h-4 w-4" />
+            {t('createKnowledgeBase')}
+          </Button>
+        </div>
+      </div>
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(KnowledgeBase)
@@ -0,0 +1,91 @@
+'use client'
+import { memo, useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { BookOpen } from 'lucide-react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { getKnowledgeText, getKnowledgeChunk } from '@/utils/knowledge'
+
+type Props = {
+  references: KnowledgeReference[]
+}
+
+type SourceProps = {
+  reference?: KnowledgeReference
+  onClose: () => void
+}
+
+function KnowledgeSource({ reference, onClose }: SourceProps) {
+  const { t } = useTranslation()
+  const highlightRef = useRef<HTMLElement>(null)
+  const [source, setSource] = useState<{ text: string; start: number; end: number }>()
+
+  useEffect(() => {
+    setSource(undefined)
+    if (!reference) return
+    Promise.all([getKnowledgeText(reference.fileId), getKnowledgeChunk(reference.fileId, reference.chunkIndex)]).then(
+      ([text, chunk]) => {
+        // The file has been removed from the knowledge base, only the excerpt is left
+        if (text === '' || !chunk) return setSource({ text: reference.text, start: 0, end: reference.text.length })
+        setSource({ text, start: chunk.start, end: chunk.end })
+      },
+    )
+  }, [reference])
+
+  useEffect(() => {
+    if (source) highlightRef.current?.scrollIntoView({ block: 'center' })
+  }, [source])
+
+  return (
+    <ResponsiveDialog
+      className="sm:max-w-2xl"
+      open={!!reference}
+      onClose={onClose}
+      title={reference?.fileName}
+      description={reference ? t('knowledgeChunkIndex', { index: reference.chunkIndex + 1 }) : ''}
+    >
+      <ScrollArea className="h-[60vh] w-full">
+        {source ? (
+          <p className="whitespace-pre-wrap break-words text-sm leading-6">
+            {source.text.slice(0, source.start)}
+            <mark ref={highlightRef} className="rounded bg-yellow-200 dark:bg-yellow-800 dark:text-white">
+              {source.text.slice(source.start, source.end)}
+            </mark>
+            {source.text.slice(source.end)}
+          </p>
+        ) : null}
+      </ScrollArea>
+    </ResponsiveDialog>
+  )
+}
+
+function KnowledgeReferences({ references }: Props) {
+  const { t } = useTranslation()
+  const [currentReference, setCurrentReference] = useState<KnowledgeReference>()
+
+  return (
+    <>
+      <hr className="my-4" />
+      <p className="mb-2 inline-flex items-center text-xs text-slate-500">
+        <BookOpen className="mr-1 h-4 w-4" />
+        {t('knowledgeReferences')}
+      </p>
+      <ul className="flex flex-wrap gap-2">
+        {references.map((item, idx) => (
+          <li
+            key={idx}
+            className="cursor-pointer rounded-full border bg-gray-50 px-4 py-1 text-sm hover:bg-gray-100 dark:bg-gray-950 dark:hover:bg-gray-900"
+            title={item.text}
+            onClick={() => setCurrentReference(item)}
+          >
+            <span className="mr-1 font-mono text-slate-500">[{idx + 1}]</span>
+            {item.fileName}
+          </li>
+        ))}
+      </ul>
+      <KnowledgeSource reference={currentReference} onClose={() => setCurrentReference(undefined)} />
+    </>
+  )
+}
+
+export default memo(KnowledgeReferences)
@@ -0,0 +1,44 @@
+import { createContext, memo, useContext, type ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { parseCitationHref, getSourceDomain } from '@/utils/citation'
+
+type Props = {
+  href: string
+  children: ReactNode
+}
+
+// The grounding metadata of the message that is being rendered
+export const CitationContext = createContext<Message['groundingMetadata']>(undefined)
+
+function Citation({ href, children }: Props) {
+  const { t } = useTranslation()
+  const groundingMetadata = useContext(CitationContext)
+  const citation = parseCitationHref(href)
+  const source = citation ? groundingMetadata?.groundingChunks?.[citation.chunkIndex]?.web : undefined
+  if (!citation || !source) return <sup className="citation">{children}</sup>
+
+  const domain = getSourceDomain(source)
+  const support = groundingMetadata?.groundingSupports?.[citation.supportIndex]
+  const scoreIndex = support ? support.groundingChunkIndices.indexOf(citation.chunkIndex) : -1
+  const confidence = support && scoreIndex > -1 ? support.confidenceScores?.[scoreIndex] : undefined
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <a className="citation" href={source.uri} target="_blank">
+            {children}
+          </a>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-80 text-left text-xs leading-5">
+          <p className="font-medium">{source.title}</p>
+          {domain !== source.title ? <p className="text-slate-500">{domain}</p> : null}
+          {confidence !== undefined ? <p>{t('citationConfidence', { score: Math.round(confidence * 100) })}</p> : null}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+export default memo(Citation)
@@ -5,6 +5,8 @@ import remarkGfm from 'remark-gfm'
 import rehypeHighlight from 'rehype-highlight'
 import remarkMath from 'remark-math'
 import rehypeKatex from 'rehype-katex'
+import Citation from './Citation'
+import { CITATION_PREFIX } from '@/utils/citation'
 import { clsx } from 'clsx'
 import { omit } from 'lodash-es'
 
@@ -58,6 +60,7 @@ function Magicdown({ children: content, className, ...rest }: Options) {
         },
         a: (props) => {
           const { children, className, href = '', target, ...rest } = props
+          if (href.startsWith(CITATION_PREFIX)) return <Citation href={href}>{children}</Citation>
           if (/\.(aac|mp3|opus|wav)$/.test(href)) {
             return (
               <figure>
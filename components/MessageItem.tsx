@@ -18,17 +18,29 @@ import {
   LoaderCircle,
   CircleCheck,
   Blocks,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  TriangleAlert,
+  GitFork,
 } from 'lucide-react'
 import { EdgeSpeech } from '@xiangfa/polly'
 import copy from 'copy-to-clipboard'
 import { convert } from 'html-to-text'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
+import { ToastAction } from '@/components/ui/toast'
+import { useToast } from '@/components/ui/use-toast'
 import BubblesLoading from '@/components/BubblesLoading'
 import FileList from '@/components/FileList'
 import EditableArea from '@/components/EditableArea'
 import AudioPlayer from '@/components/AudioPlayer'
 import IconButton from '@/components/IconButton'
+import UsageInfo from '@/components/UsageInfo'
+import SafetyInfo from '@/components/SafetyInfo'
+import SafetyNotice from '@/components/SafetyNotice'
+import KnowledgeReferences from '@/components/KnowledgeReferences'
+import { CitationContext } from '@/components/Magicdown/Citation'
 import Button from '@/components/Button'
 import Weather, { type WeatherResult } from '@/components/plugins/Weather'
 import Unsplash from '@/components/plugins/Unsplash'
@@ -38,21 +50,34 @@ import { useMessageStore } from '@/store/chat'
 import { useSettingStore } from '@/store/setting'
 import { usePluginStore } from '@/store/plugin'
 import AudioStream from '@/utils/AudioStream'
-import { sentenceSegmentation } from '@/utils/common'
+import { sentenceSegmentation, downloadFile, isThoughtPart } from '@/utils/common'
+import { trashMessage, restoreTrashItems } from '@/utils/trash'
+import { parseJSONAnswer } from '@/utils/schema'
+import { insertCitations, remapGroundingSupports } from '@/utils/citation'
+import { getBlockReason, canRelaxSafety, getNotableSafetyRatings } from '@/utils/safety'
 import type { ImageGenerationResponse } from '@/utils/generateImages'
 import { cn } from '@/utils'
 import { OFFICAL_PLUGINS } from '@/plugins'
+import { customAlphabet } from 'nanoid'
 import { isFunction, find, findLastIndex, isUndefined } from 'lodash-es'
 
 import 'katex/dist/katex.min.css'
 import 'yet-another-react-lightbox/styles.css'
 
 const Magicdown = dynamic(() => import('@/components/Magicdown'))
+const JsonTree = dynamic(() => import('@/components/JsonTree'))
 
 interface Props extends Message {
+  branch?: MessageBranch
   onRegenerate?: (id: string) => void
+  // Regenerate the answer without the safety filters
+  onRelaxedRegenerate?: (id: string) => void
+  onFork?: (id: string) => void
+  onContinue?: (id: string) => void
 }
 
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
 function mergeSentences(sentences: string[], sentenceLength = 20): string[] {
   const mergedSentences: string[] = []
   let currentSentence = ''
@@ -73,8 +98,33 @@ function mergeSentences(sentences: string[], sentenceLength = 20): string[] {
 }
 
 function MessageItem(props: Props) {
-  const { id, role, parts, attachments, groundingMetadata, onRegenerate } = props
+  const {
+    id,
+    role,
+    parts,
+    attachments,
+    groundingMetadata,
+    knowledgeReferences,
+    structuredOutput,
+    interrupted,
+    finishReason,
+    finishMessage,
+    blockReason,
+    safetyRatings,
+    usage,
+    model,
+    createdAt,
+    thinkingDuration,
+    branch,
+    onRegenerate,
+    onRelaxedRegenerate,
+    onFork,
+    onContinue,
+  } = props
   const { t } = useTranslation()
+  const { toast } = useToast()
+  // The answer being received is rendered with a fixed id
+  const isStreaming = id === 'message'
   const contentRef = useRef<HTMLDivElement>(null)
   const [html, setHtml] = useState<string>('')
   const [thoughtsHtml, setThoughtsHtml] = useState<string>('')
@@ -120,6 +170,23 @@ function MessageItem(props: Props) {
     })
     return text
   }, [parts])
+  const thinkingStats = useMemo(() => {
+    const stats: string[] = []
+    if (thinkingDuration)
+      stats.push(t('thinkingDuration', { seconds: Math.max(Math.round(thinkingDuration / 1000), 1) }))
+    if (usage?.thoughtsTokens) stats.push(t('thoughtsTokens', { count: usage.thoughtsTokens }))
+    return stats.join(' · ')
+  }, [thinkingDuration, usage, t])
+  const structuredData = useMemo(() => {
+    if (!structuredOutput) return
+    try {
+      return parseJSONAnswer(content)
+    } catch {
+      return
+    }
+  }, [structuredOutput, content])
+  const blockedReason = useMemo(() => getBlockReason({ finishReason, blockReason }), [finishReason, blockReason])
+  const notableRatings = useMemo(() => getNotableSafetyRatings(safetyRatings), [safetyRatings])
 
   const handleRegenerate = useCallback(
     (id: string) => {
@@ -130,27 +197,77 @@ function MessageItem(props: Props) {
     [onRegenerate],
   )
 
-  const handleEdit = useCallback((id: string, content: string) => {
-    const { messages, update } = useMessageStore.getState()
-    const message = find(messages, { id })
+  const handleContinue = useCallback(
+    (id: string) => {
+      if (isFunction(onContinue)) {
+        onContinue(id)
+      }
+    },
+    [onContinue],
+  )
 
-    if (message) {
-      const messageParts = [...message.parts]
-      const textPartIndex = findLastIndex(messageParts, (item) => !isUndefined(item.text))
-      if (textPartIndex !== -1) {
-        messageParts[textPartIndex].text = content
+  const handleFork = useCallback(
+    (id: string) => {
+      if (isFunction(onFork)) {
+        onFork(id)
       }
-      update(id, { ...message, parts: messageParts })
-    }
+    },
+    [onFork],
+  )
 
-    setIsEditing(false)
-  }, [])
+  const handleEdit = useCallback(
+    (id: string, content: string) => {
+      const { messages, branch: branchMessage } = useMessageStore.getState()
+      const message = find(messages, { id })
 
-  const handleDelete = useCallback((id: string) => {
-    const { remove } = useMessageStore.getState()
-    remove(id)
+      if (message) {
+        const textPartIndex = findLastIndex(message.parts, (item) => !isUndefined(item.text))
+        const messageParts: Message['parts'] = message.parts.map((part, idx) =>
+          idx === textPartIndex ? { text: content } : part,
+        )
+        const newMessage = { ...message, id: nanoid(), parts: messageParts, createdAt: Date.now() }
+        if (message.groundingMetadata) {
+          // The citations follow their segments to the new positions in the edited text
+          newMessage.groundingMetadata = {
+            ...message.groundingMetadata,
+            groundingSupports: remapGroundingSupports(
+              content,
+              message.groundingMetadata.groundingSupports,
+            ) as typeof message.groundingMetadata.groundingSupports,
+          }
+        }
+        // The edited message becomes a sibling branch, the original one is kept
+        branchMessage(id, newMessage)
+        if (role === 'user') handleRegenerate(newMessage.id)
+      }
+
+      setIsEditing(false)
+    },
+    [role, handleRegenerate],
+  )
+
+  const handleSwitchBranch = useCallback((id: string, index: number) => {
+    const { switchBranch } = useMessageStore.getState()
+    switchBranch(id, index)
   }, [])
 
+  const handleDelete = useCallback(
+    (id: string) => {
+      const item = trashMessage(id)
+      if (!item) return false
+      toast({
+        title: t('messageDeleted'),
+        action: (
+          <ToastAction altText="Undo" onClick={() => restoreTrashItems([item])}>
+            {t('undo')}
+          </ToastAction>
+        ),
+        duration: 3600,
+      })
+    },
+    [t, toast],
+  )
+
   const handleCopy = useCallback(() => {
     setIsCopyed(true)
     copy(content)
@@ -159,6 +276,10 @@ function MessageItem(props: Props) {
     }, 1200)
   }, [content])
 
+  const handleDownloadJSON = useCallback(() => {
+    downloadFile(JSON.stringify(structuredData, null, 2), `${id}.json`, 'application/json')
+  }, [id, structuredData])
+
   const handleSpeak = useCallback(async () => {
     if (!contentRef.current) return false
 
@@ -307,11 +428,14 @@ function MessageItem(props: Props) {
                     <AccordionTrigger className="py-1">
                       <span className="flex text-slate-700">
                         {t('thoughts')}
-                        {html === '' ? (
-                          <LoaderCircle className="ml-2 mt-0.5 h-5 w-5 animate-spin" />
-                        ) : (
+                        {html !== '' ? (
                           t('expandThoughts')
-                        )}
+                        ) : isStreaming ? (
+                          <LoaderCircle className="ml-2 mt-0.5 h-5 w-5 animate-spin" />
+                        ) : null}
+                        {thinkingStats !== '' ? (
+                          <span className="ml-2 text-xs leading-5 text-slate-500">{thinkingStats}</span>
+                        ) : null}
                       </span>
                     </AccordionTrigger>
                     <AccordionContent>
@@ -320,9 +444,57 @@ function MessageItem(props: Props) {
                   </AccordionItem>
                 </Accordion>
               ) : null}
+              {thoughtsHtml !== '' && html === '' && !isStreaming ? (
+                <p className="my-1 text-sm text-slate-500">{t('thoughtsWithoutAnswer')}</p>
+              ) : null}
               <div ref={contentRef}>
-                <Magicdown>{html}</Magicdown>
+                {!isUndefined(structuredData) ? (
+                  <div className="overflow-x-auto rounded-md border p-2 font-mono text-xs leading-5">
+                    <JsonTree data={structuredData} />
+                  </div>
+                ) : (
+                  <CitationContext.Provider value={groundingMetadata}>
+                    <Magicdown>{html}</Magicdown>
+                  </CitationContext.Provider>
+                )}
               </div>
+              {blockedReason ? (
+                <SafetyNotice
+                  reason={blockedReason}
+                  isPrompt={!!blockReason}
+                  finishMessage={finishMessage}
+                  safetyRatings={safetyRatings}
+                  onRelaxedRetry={
+                    canRelaxSafety({ finishReason, blockReason }) && isFunction(onRelaxedRegenerate)
+                      ? () => onRelaxedRegenerate(id)
+                      : undefined
+                  }
+                />
+              ) : null}
+              {(interrupted || finishReason === 'MAX_TOKENS') && isFunction(onContinue) ? (
+                <div className="my-2 flex items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-700 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-400">
+                  <p className="inline-flex items-center font-medium">
+                    <TriangleAlert className="mr-1 h-4 w-4" />
+                    {t(interrupted ? 'answerInterrupted' : 'answerTruncated')}
+                  </p>
+                  <Button className="h-7" size="sm" variant="outline" onClick={() => handleContinue(id)}>
+                    {t('continueAnswer')}
+                  </Button>
+                </div>
+              ) : null}
+              {structuredOutput && structuredOutput.errors.length > 0 ? (
+                <div className="my-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-700 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-400">
+                  <p className="mb-1 inline-flex items-center font-medium">
+                    <TriangleAlert className="mr-1 h-4 w-4" />
+                    {t('schemaValidationFailed')}
+                  </p>
+                  <ul className="list-inside list-disc font-mono">
+                    {structuredOutput.errors.map((error, idx) => (
+                      <li key={idx}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
               {groundingMetadata ? (
                 <>
                   {groundingMetadata.groundingChunks?.length > 0 ? (
@@ -333,6 +505,7 @@ function MessageItem(props: Props) {
                           return (
                             <li className="rounded-full border bg-gray-50 px-4 py-1 dark:bg-gray-950" key={idx}>
                               <a href={item.web?.uri} target="_blank">
+                                <span className="mr-1 font-mono text-slate-500">[{idx + 1}]</span>
                                 {item.web?.title}
                               </a>
                             </li>
@@ -352,14 +525,40 @@ function MessageItem(props: Props) {
                   ></div>
                 </>
               ) : null}
+              {knowledgeReferences && knowledgeReferences.length > 0 ? (
+                <KnowledgeReferences references={knowledgeReferences} />
+              ) : null}
               <div
                 className={cn(
                   'flex gap-1 text-right opacity-0 transition-opacity duration-300 group-hover:opacity-100 max-md:opacity-30',
                   role === 'user' && chatLayout === 'chat' ? 'justify-start' : 'justify-end',
                 )}
               >
+                {branch && branch.list.length > 1 ? (
+                  <div className="mr-1 flex items-center text-xs text-slate-500">
+                    <IconButton
+                      title={t('previousBranch')}
+                      className={branch.current === 0 ? 'pointer-events-none opacity-30' : ''}
+                      onClick={() => handleSwitchBranch(id, branch.current - 1)}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </IconButton>
+                    <span className="min-w-8 text-center font-mono">
+                      {branch.current + 1}/{branch.list.length}
+                    </span>
+                    <IconButton
+                      title={t('nextBranch')}
+                      className={branch.current === branch.list.length - 1 ? 'pointer-events-none opacity-30' : ''}
+                      onClick={() => handleSwitchBranch(id, branch.current + 1)}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </IconButton>
+                  </div>
+                ) : null}
                 {id !== 'preview' ? (
                   <>
+                    {!blockedReason && notableRatings.length > 0 ? <SafetyInfo ratings={notableRatings} /> : null}
+                    {usage ? <UsageInfo usage={usage} model={model} createdAt={createdAt} /> : null}
                     <IconButton
                       title={t(role === 'user' ? 'resend' : 'regenerate')}
                       onClick={() => handleRegenerate(id)}
@@ -369,9 +568,19 @@ function MessageItem(props: Props) {
                     <IconButton title={t('edit')} onClick={() => setIsEditing(true)}>
                       <PencilLine className="h-4 w-4" />
                     </IconButton>
+                    {isFunction(onFork) ? (
+                      <IconButton title={t('forkFromHere')} onClick={() => handleFork(id)}>
+                        <GitFork className="h-4 w-4" />
+                      </IconButton>
+                    ) : null}
                     <IconButton title={t('copy')} onClick={() => handleCopy()}>
                       {isCopyed ? <CopyCheck className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
                     </IconButton>
+                    {!isUndefined(structuredData) ? (
+                      <IconButton title={t('downloadJSON')} onClick={() => handleDownloadJSON()}>
+                        <Download className="h-4 w-4" />
+                      </IconButton>
+                    ) : null}
                     <IconButton title={t('delete')} onClick={() => handleDelete(id)}>
                       <Eraser className="h-4 w-4" />
                     </IconButton>
@@ -397,12 +606,20 @@ function MessageItem(props: Props) {
 
   useEffect(() => {
     const textParts = parts.filter((item) => !isUndefined(item.text))
-    if (role === 'model' && textParts.length === 2) {
-      if (textParts[0].text) {
-        setThoughtsHtml(textParts[0].text)
+    const thoughtParts = textParts.filter((item) => isThoughtPart(item))
+    // The thoughts saved by the earlier versions are the first of two text parts without the thought flag
+    if (role === 'model' && (thoughtParts.length > 0 || textParts.length === 2)) {
+      const thoughts = thoughtParts.length > 0 ? thoughtParts : [textParts[0]]
+      const thoughtText = thoughts.map((item) => item.text).join('')
+      const answerText = textParts
+        .filter((item) => !thoughts.includes(item))
+        .map((item) => item.text)
+        .join('')
+      if (thoughtText) {
+        setThoughtsHtml(thoughtText)
       }
-      if (textParts[1].text) {
-        setHtml(textParts[1].text)
+      if (answerText) {
+        setHtml(insertCitations(answerText, groundingMetadata?.groundingSupports))
       }
     } else {
       const messageParts: string[] = []
@@ -413,6 +630,7 @@ function MessageItem(props: Props) {
       })
       let content = messageParts.join('')
       if (role === 'model') {
+        content = insertCitations(content, groundingMetadata?.groundingSupports)
         const inlineImageList: InlineDataPart['inlineData'][] = []
         parts.forEach((item) => {
           if (item.inlineData?.mimeType.startsWith('image/')) {
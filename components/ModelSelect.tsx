@@ -4,11 +4,12 @@ import { useSettingStore, useEnvStore } from '@/store/setting'
 import { useModelStore } from '@/store/model'
 import { fetchModels } from '@/utils/models'
 import { Model } from '@/constant/model'
-import { values, keys, find } from 'lodash-es'
+import { values, keys, find, isFunction } from 'lodash-es'
 
 type Props = {
   className?: string
   defaultModel: string
+  onChange?: (model: string) => void
 }
 
 let cachedModelList = false
@@ -17,7 +18,7 @@ function filterModel(models: Model[] = []) {
   return models.filter((model) => model.name.startsWith('models/gemini-'))
 }
 
-function ModelSelect({ className, defaultModel }: Props) {
+function ModelSelect({ className, defaultModel, onChange }: Props) {
   const { models } = useModelStore()
   const { update } = useSettingStore()
   const { modelList: MODEL_LIST, isProtected } = useEnvStore()
@@ -59,6 +60,7 @@ function ModelSelect({ className, defaultModel }: Props) {
 
   const handleModelChange = useCallback(
     (name: string) => {
+      if (isFunction(onChange)) return onChange(name)
       const currentModel = find(models, { name: `models/${name}` })
       if (currentModel) {
         const values: Record<string, number> = {}
@@ -72,7 +74,7 @@ function ModelSelect({ className, defaultModel }: Props) {
         update({ model: name })
       }
     },
-    [update, models],
+    [update, models, onChange],
   )
 
   const uploadModelList = useCallback(() => {
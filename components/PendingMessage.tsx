@@ -0,0 +1,62 @@
+'use client'
+import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Clock, TriangleAlert, Send, PencilLine, Trash2, FileX } from 'lucide-react'
+import FileList from '@/components/FileList'
+import IconButton from '@/components/IconButton'
+import { cn } from '@/utils'
+
+type Props = {
+  message: OutboxMessage
+  layout: 'chat' | 'doc' | 'compare'
+  onSend: (id: string) => void
+  onEdit: (id: string) => void
+  onDiscard: (id: string) => void
+}
+
+function PendingMessage({ message, layout, onSend, onEdit, onDiscard }: Props) {
+  const { t } = useTranslation()
+  const isConflict = message.status === 'conflict'
+
+  return (
+    <div className={cn('flex gap-3 p-4 pb-1 text-slate-500', layout === 'chat' ? 'flex-row-reverse text-right' : '')}>
+      <div className="flex-1 overflow-hidden">
+        {message.attachments.length > 0 ? (
+          <div className="mb-2">
+            <FileList fileList={message.attachments} />
+          </div>
+        ) : null}
+        {message.droppedAttachments ? (
+          <p className="mb-2 flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+            <FileX className="h-4 w-4 shrink-0" />
+            <span>{t('outboxDroppedAttachments', { names: message.droppedAttachments.join(', ') })}</span>
+          </p>
+        ) : null}
+        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+        <div
+          className={cn(
+            'mt-1 flex items-center gap-1 text-xs',
+            layout === 'chat' ? 'flex-row-reverse' : '',
+            isConflict ? 'text-amber-600 dark:text-amber-400' : '',
+          )}
+        >
+          {isConflict ? <TriangleAlert className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+          <span>{t(isConflict ? 'outboxConflict' : 'outboxPending')}</span>
+          {isConflict ? (
+            <IconButton title={t('sendAnyway')} onClick={() => onSend(message.id)}>
+              <Send className="h-4 w-4" />
+            </IconButton>
+          ) : null}
+          <IconButton title={t('edit')} onClick={() => onEdit(message.id)}>
+            <PencilLine className="h-4 w-4" />
+          </IconButton>
+          <IconButton title={t('delete')} onClick={() => onDiscard(message.id)}>
+            <Trash2 className="h-4 w-4" />
+          </IconButton>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default memo(PendingMessage)
@@ -0,0 +1,37 @@
+'use client'
+import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ShieldAlert } from 'lucide-react'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+
+type Props = {
+  ratings: SafetyRatingResult[]
+}
+
+function SafetyInfo({ ratings }: Props) {
+  const { t } = useTranslation()
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex cursor-default items-center rounded-full p-1.5 text-slate-500 hover:bg-secondary">
+            <ShieldAlert className="h-4 w-4" />
+          </div>
+        </TooltipTrigger>
+        <TooltipContent className="text-left text-xs leading-5">
+          <p className="font-medium">{t('safetyRatings')}</p>
+          {ratings.map((item) => (
+            <p key={item.category}>
+              {t(`harmCategories.${item.category}`, { defaultValue: item.category })}:{' '}
+              {t(`harmProbabilities.${item.probability}`, { defaultValue: item.probability })}
+              {item.blocked ? <span className="text-red-500"> ({t('blockedByFilter')})</span> : null}
+            </p>
+          ))}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+export default memo(SafetyInfo)
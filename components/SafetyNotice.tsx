@@ -0,0 +1,56 @@
+'use client'
+import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ShieldAlert } from 'lucide-react'
+import Button from '@/components/Button'
+import { getNotableSafetyRatings } from '@/utils/safety'
+
+type Props = {
+  reason: string
+  // The prompt was blocked instead of the answer
+  isPrompt: boolean
+  finishMessage?: string
+  safetyRatings?: SafetyRatingResult[]
+  onRelaxedRetry?: () => void
+}
+
+function SafetyNotice({ reason, isPrompt, finishMessage, safetyRatings, onRelaxedRetry }: Props) {
+  const { t } = useTranslation()
+  const ratings = getNotableSafetyRatings(safetyRatings)
+
+  return (
+    <div className="my-2 flex items-start justify-between gap-2 rounded-md border border-red-300 bg-red-50 p-2 text-xs text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-400">
+      <div className="grid gap-1">
+        <p className="inline-flex items-center font-medium">
+          <ShieldAlert className="mr-1 h-4 w-4" />
+          {t(isPrompt ? 'promptBlocked' : 'answerBlocked')}
+        </p>
+        <p>{t(`blockReasons.${reason}`, { defaultValue: reason })}</p>
+        {finishMessage ? <p className="opacity-80">{finishMessage}</p> : null}
+        {ratings.length > 0 ? (
+          <ul className="inline-flex flex-wrap gap-1">
+            {ratings.map((item) => (
+              <li key={item.category} className="rounded-full border border-current px-2">
+                {t(`harmCategories.${item.category}`, { defaultValue: item.category })}:{' '}
+                {t(`harmProbabilities.${item.probability}`, { defaultValue: item.probability })}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+      {onRelaxedRetry ? (
+        <Button
+          className="h-7 shrink-0"
+          size="sm"
+          variant="outline"
+          title={t('relaxedRetryDescription')}
+          onClick={onRelaxedRetry}
+        >
+          {t('retryWithRelaxedSafety')}
+        </Button>
+      ) : null}
+    </div>
+  )
+}
+
+export default memo(SafetyNotice)
@@ -0,0 +1,111 @@
+'use client'
+import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ListFilter } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import type { SearchFilter as SearchFilterParams } from '@/utils/SearchIndex'
+import { cn } from '@/utils'
+
+export interface SearchFilterValue {
+  role: 'all' | 'user' | 'model'
+  period: 'all' | 'day' | 'week' | 'month' | 'year'
+  model: string
+}
+
+type Props = {
+  value: SearchFilterValue
+  models: string[]
+  onChange: (value: SearchFilterValue) => void
+}
+
+export const defaultSearchFilter: SearchFilterValue = { role: 'all', period: 'all', model: 'all' }
+
+const periodDays: Record<Exclude<SearchFilterValue['period'], 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+}
+
+export function getSearchFilterParams(value: SearchFilterValue): SearchFilterParams {
+  const params: SearchFilterParams = {}
+  if (value.role !== 'all') params.role = value.role
+  if (value.model !== 'all') params.model = value.model
+  if (value.period !== 'all') params.from = Date.now() - periodDays[value.period] * 86400000
+  return params
+}
+
+function SearchFilter({ value, models, onChange }: Props) {
+  const { t } = useTranslation()
+  const isFiltered = value.role !== 'all' || value.period !== 'all' || value.model !== 'all'
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        className={cn(
+          'inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-md text-muted-foreground hover:bg-[hsl(var(--sidebar-accent))]',
+          isFiltered ? 'text-red-400' : '',
+        )}
+        title={t('searchFilter')}
+      >
+        <ListFilter className="h-4 w-4" />
+      </PopoverTrigger>
+      <PopoverContent className="grid w-60 gap-3 text-sm">
+        <div className="grid gap-1">
+          <Label>{t('searchRole')}</Label>
+          <Select
+            value={value.role}
+            onValueChange={(role) => onChange({ ...value, role: role as SearchFilterValue['role'] })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('all')}</SelectItem>
+              <SelectItem value="user">{t('userMessages')}</SelectItem>
+              <SelectItem value="model">{t('modelMessages')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <Label>{t('searchPeriod')}</Label>
+          <Select
+            value={value.period}
+            onValueChange={(period) => onChange({ ...value, period: period as SearchFilterValue['period'] })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('all')}</SelectItem>
+              <SelectItem value="day">{t('pastDay')}</SelectItem>
+              <SelectItem value="week">{t('pastWeek')}</SelectItem>
+              <SelectItem value="month">{t('pastMonth')}</SelectItem>
+              <SelectItem value="year">{t('pastYear')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <Label>{t('llmModel')}</Label>
+          <Select value={value.model} onValueChange={(model) => onChange({ ...value, model })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('all')}</SelectItem>
+              {models.map((model) => (
+                <SelectItem key={model} value={model}>
+                  {model}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default memo(SearchFilter)
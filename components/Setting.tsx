@@ -5,7 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { useTranslation } from 'react-i18next'
-import { MonitorDown, RefreshCw } from 'lucide-react'
+import { MonitorDown, RefreshCw, ArchiveRestore, CloudUpload, Brain } from 'lucide-react'
 import { usePWAInstall } from 'react-use-pwa-install'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form'
@@ -18,8 +18,12 @@ import { Switch } from '@/components/ui/switch'
 import { useToast } from '@/components/ui/use-toast'
 import Button from '@/components/Button'
 import ResponsiveDialog from '@/components/ResponsiveDialog'
+import WorkspaceBackup from '@/components/WorkspaceBackup'
+import SyncSetting from '@/components/SyncSetting'
+import UserMemory from '@/components/UserMemory'
 import i18n from '@/utils/i18n'
-import { fetchModels } from '@/utils/models'
+import { fetchModels, supportThinkingConfig } from '@/utils/models'
+import { memoryStrategyNames } from '@/utils/memory'
 import locales from '@/constant/locales'
 import { Model, DefaultModel } from '@/constant/model'
 import { GEMINI_API_BASE_URL, ASSISTANT_INDEX_URL } from '@/constant/urls'
@@ -42,11 +46,16 @@ const formSchema = z.object({
   apiKey: z.string().optional(),
   apiProxy: z.string().optional(),
   model: z.string(),
-  maxHistoryLength: z.number().gte(0).lte(50).optional().default(0),
+  contextBudget: z.number().gte(10).lte(100).optional().default(100),
+  memoryStrategy: z.enum(['slidingWindow', 'rollingSummary', 'summaryLastN', 'hybrid']).optional().default('hybrid'),
+  memoryWindow: z.number().gte(2).lte(50).optional().default(10),
   topP: z.number(),
   topK: z.number(),
   temperature: z.number(),
   maxOutputTokens: z.number(),
+  thinkingBudget: z.number().optional().default(-1),
+  includeThoughts: z.boolean().optional().default(true),
+  autoContinueRounds: z.number().gte(0).lte(5).optional().default(0),
   safety: z.enum(['none', 'low', 'middle', 'high']).default('none'),
   sttLang: z.string().optional(),
   ttsLang: z.string().optional(),
@@ -55,6 +64,8 @@ const formSchema = z.object({
   autoStopRecord: z.boolean().default(false),
 })
 
+const thinkingBudgetOptions = [-1, 0, 1024, 4096, 8192, 16384, 24576]
+
 function filterModel(models: Model[] = []) {
   return models.filter((model) => model.name.startsWith('models/gemini-'))
 }
@@ -67,6 +78,9 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
   const { isProtected, buildMode, modelList: MODEL_LIST } = useEnvStore()
   const [ttsLang, setTtsLang] = useState<string>('')
   const [hiddenPasswordInput, setHiddenPasswordInput] = useState<boolean>(false)
+  const [workspaceBackupOpen, setWorkspaceBackupOpen] = useState<boolean>(false)
+  const [syncSettingOpen, setSyncSettingOpen] = useState<boolean>(false)
+  const [userMemoryOpen, setUserMemoryOpen] = useState<boolean>(false)
   const voiceOptions = useMemo(() => {
     return new EdgeSpeech({ locale: ttsLang }).voiceOptions || []
   }, [ttsLang])
@@ -131,6 +145,8 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
     },
   })
 
+  const memoryStrategy = form.watch('memoryStrategy')
+
   const handleTTSChange = (value: string) => {
     form.setValue('ttsLang', value)
     setTtsLang(value)
@@ -177,6 +193,11 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
     form.reset(defaultValues)
   }, [form])
 
+  const handleWorkspaceRestored = useCallback(() => {
+    const state = useSettingStore.getState()
+    form.reset(omitBy(state, (item) => isFunction(item)) as z.infer<typeof formSchema>)
+  }, [form])
+
   const handleSubmit = useCallback(
     (values: z.infer<typeof formSchema>) => {
       const { update } = useSettingStore.getState()
@@ -304,6 +325,32 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
                     </Button>
                   </div>
                 ) : null}
+                <div className="grid grid-cols-4 items-center gap-4 space-y-0">
+                  <Label className="text-right">{t('userMemory')}</Label>
+                  <Button className="col-span-3" type="button" variant="ghost" onClick={() => setUserMemoryOpen(true)}>
+                    <Brain className="mr-1.5 h-4 w-4" />
+                    {t('manageMemories')}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4 space-y-0">
+                  <Label className="text-right">{t('workspaceBackup')}</Label>
+                  <Button
+                    className="col-span-3"
+                    type="button"
+                    variant="ghost"
+                    onClick={() => setWorkspaceBackupOpen(true)}
+                  >
+                    <ArchiveRestore className="mr-1.5 h-4 w-4" />
+                    {t('backupAndRestore')}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4 space-y-0">
+                  <Label className="text-right">{t('workspaceSync')}</Label>
+                  <Button className="col-span-3" type="button" variant="ghost" onClick={() => setSyncSettingOpen(true)}>
+                    <CloudUpload className="mr-1.5 h-4 w-4" />
+                    {t('configureSync')}
+                  </Button>
+                </div>
                 <div className="grid grid-cols-4 items-center gap-4 space-y-0">
                   <Label className="text-right">{t('resetSetting')}</Label>
                   <Button
@@ -433,27 +480,73 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
                 />
                 <FormField
                   control={form.control}
-                  name="maxHistoryLength"
+                  name="contextBudget"
                   render={({ field }) => (
                     <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
-                      <FormLabel className="text-right">{t('maxHistoryLength')}</FormLabel>
+                      <FormLabel className="text-right">{t('contextBudget')}</FormLabel>
                       <FormControl>
                         <div className="col-span-3 flex h-10">
                           <Slider
                             className="flex-1"
                             value={[field.value]}
-                            max={50}
-                            step={1}
+                            min={10}
+                            max={100}
+                            step={5}
                             onValueChange={(values) => field.onChange(values[0])}
                           />
-                          <span className="w-1/5 text-center text-sm leading-10">
-                            {field.value === 0 ? t('unlimited') : field.value}
-                          </span>
+                          <span className="w-1/5 text-center text-sm leading-10">{field.value}%</span>
                         </div>
                       </FormControl>
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="memoryStrategy"
+                  render={({ field }) => (
+                    <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                      <FormLabel className="text-right">{t('memoryStrategy')}</FormLabel>
+                      <FormControl>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <SelectTrigger className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {memoryStrategyNames.map((name) => (
+                              <SelectItem key={name} value={name}>
+                                {t(`memoryStrategies.${name}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {memoryStrategy === 'slidingWindow' || memoryStrategy === 'summaryLastN' ? (
+                  <FormField
+                    control={form.control}
+                    name="memoryWindow"
+                    render={({ field }) => (
+                      <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                        <FormLabel className="text-right">{t('memoryWindow')}</FormLabel>
+                        <FormControl>
+                          <div className="col-span-3 flex h-10">
+                            <Slider
+                              className="flex-1"
+                              value={[field.value]}
+                              min={2}
+                              max={50}
+                              step={1}
+                              onValueChange={(values) => field.onChange(values[0])}
+                            />
+                            <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                          </div>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ) : null}
               </div>
             </TabsContent>
             <TabsContent value="params">
@@ -542,6 +635,78 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
                     </FormItem>
                   )}
                 />
+                {supportThinkingConfig(form.watch('model'), modelStore.models) ? (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="thinkingBudget"
+                      render={({ field }) => (
+                        <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                          <FormLabel className="text-right">{t('thinkingBudget')}</FormLabel>
+                          <FormControl>
+                            <Select
+                              value={String(field.value)}
+                              onValueChange={(value) => field.onChange(Number(value))}
+                            >
+                              <SelectTrigger className="col-span-3">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {thinkingBudgetOptions.map((budget) => (
+                                  <SelectItem key={budget} value={String(budget)}>
+                                    {budget === -1
+                                      ? t('thinkingBudgetAuto')
+                                      : budget === 0
+                                        ? t('thinkingBudgetOff')
+                                        : t('thinkingBudgetTokens', { count: budget })}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="includeThoughts"
+                      render={({ field }) => (
+                        <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                          <FormLabel className="text-right">{t('includeThoughts')}</FormLabel>
+                          <FormControl>
+                            <>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                              <span className="text-center">
+                                {field.value ? t('settingEnable') : t('settingDisable')}
+                              </span>
+                            </>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                ) : null}
+                <FormField
+                  control={form.control}
+                  name="autoContinueRounds"
+                  render={({ field }) => (
+                    <FormItem className="grid grid-cols-4 items-center gap-4 space-y-0">
+                      <FormLabel className="text-right">{t('autoContinue')}</FormLabel>
+                      <FormControl>
+                        <div className="col-span-3 flex h-10">
+                          <Slider
+                            className="flex-1"
+                            value={[field.value]}
+                            max={5}
+                            step={1}
+                            onValueChange={(values) => field.onChange(values[0])}
+                          />
+                          <span className="w-1/5 text-center text-sm leading-10">{field.value}</span>
+                        </div>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="safety"
@@ -679,6 +844,17 @@ function Setting({ open, hiddenTalkPanel, onClose }: SettingProps) {
           </Tabs>
         </form>
       </Form>
+      <WorkspaceBackup
+        open={workspaceBackupOpen}
+        onClose={() => setWorkspaceBackupOpen(false)}
+        onRestored={handleWorkspaceRestored}
+      />
+      <SyncSetting
+        open={syncSettingOpen}
+        onClose={() => setSyncSettingOpen(false)}
+        onSynced={handleWorkspaceRestored}
+      />
+      <UserMemory open={userMemoryOpen} onClose={() => setUserMemoryOpen(false)} />
     </ResponsiveDialog>
   )
 }
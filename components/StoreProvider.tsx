@@ -1,6 +1,8 @@
 'use client'
-import { useLayoutEffect } from 'react'
+import { useEffect, useLayoutEffect } from 'react'
 import { useEnvStore } from '@/store/setting'
+import { useSyncStore } from '@/store/sync'
+import { syncWorkspace, waitForSyncReady, AUTO_SYNC_INTERVAL } from '@/utils/sync'
 
 const NEXT_PUBLIC_BUILD_MODE = process.env.NEXT_PUBLIC_BUILD_MODE || 'default'
 
@@ -21,6 +23,19 @@ function StoreProvider({ children }: Props) {
     }
   }, [])
 
+  useEffect(() => {
+    let timer: NodeJS.Timeout
+    const autoSync = () => {
+      const { provider, passphrase, autoSync } = useSyncStore.getState()
+      if (provider !== 'none' && passphrase !== '' && autoSync) syncWorkspace().catch(console.error)
+    }
+    waitForSyncReady().then(() => {
+      autoSync()
+      timer = setInterval(autoSync, AUTO_SYNC_INTERVAL)
+    })
+    return () => clearInterval(timer)
+  }, [])
+
   return children
 }
 
@@ -0,0 +1,146 @@
+'use client'
+import { useState, useCallback, useEffect, memo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { Braces } from 'lucide-react'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useMessageStore } from '@/store/chat'
+import { parseResponseSchema } from '@/utils/schema'
+import { cn } from '@/utils'
+
+const formSchema = z
+  .object({
+    enabled: z.boolean(),
+    schema: z.string(),
+  })
+  .superRefine(({ enabled, schema }, ctx) => {
+    if (!enabled && schema === '') return
+    try {
+      parseResponseSchema(schema)
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['schema'],
+        message: err instanceof Error ? err.message : 'Invalid schema',
+      })
+    }
+  })
+
+const schemaPlaceholder = `{
+  "type": "object",
+  "properties": {
+    "name": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["name"]
+}`
+
+function StructuredOutput() {
+  const { t } = useTranslation()
+  const enabled = useMessageStore((state) => state.structuredOutput.enabled)
+  const [open, setOpen] = useState<boolean>(false)
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { enabled: false, schema: '' },
+  })
+
+  const handleSubmit = useCallback((values: z.infer<typeof formSchema>) => {
+    const { updateStructuredOutput } = useMessageStore.getState()
+    updateStructuredOutput(values)
+    setOpen(false)
+  }, [])
+
+  const handleFormat = useCallback(() => {
+    const { schema } = form.getValues()
+    try {
+      form.setValue('schema', JSON.stringify(parseResponseSchema(schema), null, 2))
+      form.clearErrors('schema')
+    } catch (err) {
+      form.setError('schema', { message: err instanceof Error ? err.message : 'Invalid schema' })
+    }
+  }, [form])
+
+  useEffect(() => {
+    if (open) {
+      const { structuredOutput } = useMessageStore.getState()
+      form.reset(structuredOutput)
+    }
+  }, [open, form])
+
+  return (
+    <>
+      <Button
+        className={cn(
+          'h-10 w-10 max-sm:h-8 max-sm:w-8 [&_svg]:size-5 max-sm:[&_svg]:size-4',
+          enabled ? 'text-red-400 hover:text-red-400' : '',
+        )}
+        title={t('structuredOutput')}
+        variant="secondary"
+        size="icon"
+        onClick={() => setOpen(true)}
+      >
+        <Braces />
+      </Button>
+      <ResponsiveDialog
+        open={open}
+        onClose={() => setOpen(false)}
+        title={t('structuredOutput')}
+        description={t('structuredOutputDescription')}
+        footer={
+          <>
+            <Button className="flex-1" type="submit" onClick={form.handleSubmit(handleSubmit)}>
+              {t('save')}
+            </Button>
+            <Button className="flex-1 max-sm:mt-2" variant="outline" onClick={() => handleFormat()}>
+              {t('formatSchema')}
+            </Button>
+          </>
+        }
+      >
+        <Form {...form}>
+          <form className="grid w-full gap-4 px-4 py-4 max-sm:px-0" onSubmit={form.handleSubmit(handleSubmit)}>
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between space-y-0">
+                  <FormLabel>{t('enableStructuredOutput')}</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="schema"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('responseSchema')}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="h-64 resize-none font-mono text-xs"
+                      placeholder={schemaPlaceholder}
+                      spellCheck={false}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+      </ResponsiveDialog>
+    </>
+  )
+}
+
+export default memo(StructuredOutput)
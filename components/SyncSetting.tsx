@@ -0,0 +1,240 @@
+'use client'
+import { memo, useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { RefreshCw, LoaderCircle } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useSyncStore, type SyncProvider } from '@/store/sync'
+import { syncWorkspace } from '@/utils/sync'
+import type { WebDAVOptions, S3Options } from '@/utils/SyncClient'
+import dayjs from 'dayjs'
+import { isEqual } from 'lodash-es'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+  onSynced?: () => void
+}
+
+type FieldProps = {
+  id: string
+  label: string
+  value?: string
+  type?: string
+  placeholder?: string
+  onChange: (value: string) => void
+}
+
+function Field({ id, label, value, type = 'text', placeholder, onChange }: FieldProps) {
+  return (
+    <div className="grid grid-cols-4 items-center gap-4">
+      <Label className="text-right" htmlFor={id}>
+        {label}
+      </Label>
+      <Input
+        id={id}
+        className="col-span-3"
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(ev) => onChange(ev.target.value)}
+      />
+    </div>
+  )
+}
+
+function SyncSetting({ open, onClose, onSynced }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const lastSyncTime = useSyncStore((state) => state.lastSyncTime)
+  const [provider, setProvider] = useState<SyncProvider>('none')
+  const [webdav, setWebdav] = useState<WebDAVOptions>({ url: '' })
+  const [s3, setS3] = useState<S3Options>({
+    endpoint: '',
+    region: '',
+    bucket: '',
+    accessKeyId: '',
+    secretAccessKey: '',
+  })
+  const [passphrase, setPassphrase] = useState<string>('')
+  const [autoSync, setAutoSync] = useState<boolean>(false)
+  const [isSyncing, setIsSyncing] = useState<boolean>(false)
+
+  useEffect(() => {
+    if (open) {
+      const state = useSyncStore.getState()
+      setProvider(state.provider)
+      setWebdav(state.webdav)
+      setS3(state.s3)
+      setPassphrase(state.passphrase)
+      setAutoSync(state.autoSync)
+    }
+  }, [open])
+
+  const handleSave = useCallback(() => {
+    const { update, reset, ...setting } = useSyncStore.getState()
+    // The sync state belongs to the previous storage, start over when the storage or the passphrase changes
+    if (
+      provider !== setting.provider ||
+      passphrase !== setting.passphrase ||
+      !isEqual(provider === 'webdav' ? webdav : s3, provider === 'webdav' ? setting.webdav : setting.s3)
+    ) {
+      reset()
+    }
+    update({ provider, webdav, s3, passphrase, autoSync })
+  }, [provider, webdav, s3, passphrase, autoSync])
+
+  const handleSync = useCallback(async () => {
+    handleSave()
+    setIsSyncing(true)
+    try {
+      const result = await syncWorkspace()
+      toast({ title: t('syncSuccess'), description: t('syncSuccessDescription', { ...result }) })
+      if (onSynced) onSynced()
+    } catch (err) {
+      toast({ title: t('syncFailed'), description: err instanceof Error ? err.message : String(err) })
+    }
+    setIsSyncing(false)
+  }, [handleSave, t, toast, onSynced])
+
+  const handleClose = useCallback(() => {
+    handleSave()
+    onClose()
+  }, [handleSave, onClose])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={handleClose}
+      title={t('workspaceSync')}
+      description={t('workspaceSyncDescription')}
+      footer={
+        <Button
+          className="flex-1"
+          disabled={provider === 'none' || passphrase === '' || isSyncing}
+          onClick={() => handleSync()}
+        >
+          {isSyncing ? <LoaderCircle className="mr-1 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-1 h-4 w-4" />}
+          {t('syncNow')}
+        </Button>
+      }
+    >
+      <div className="grid gap-4 text-sm">
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label className="text-right">{t('syncProvider')}</Label>
+          <Select value={provider} onValueChange={(value) => setProvider(value as SyncProvider)}>
+            <SelectTrigger className="col-span-3">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t('syncDisabled')}</SelectItem>
+              <SelectItem value="webdav">WebDAV</SelectItem>
+              <SelectItem value="s3">{t('s3Compatible')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {provider === 'webdav' ? (
+          <>
+            <Field
+              id="webdav-url"
+              label={t('syncUrl')}
+              value={webdav.url}
+              placeholder="https://dav.example.com/gemini-next-chat"
+              onChange={(url) => setWebdav({ ...webdav, url })}
+            />
+            <Field
+              id="webdav-username"
+              label={t('syncUsername')}
+              value={webdav.username}
+              onChange={(username) => setWebdav({ ...webdav, username })}
+            />
+            <Field
+              id="webdav-password"
+              label={t('syncPassword')}
+              type="password"
+              value={webdav.password}
+              onChange={(password) => setWebdav({ ...webdav, password })}
+            />
+          </>
+        ) : null}
+        {provider === 's3' ? (
+          <>
+            <Field
+              id="s3-endpoint"
+              label={t('syncEndpoint')}
+              value={s3.endpoint}
+              placeholder="https://s3.us-east-1.amazonaws.com"
+              onChange={(endpoint) => setS3({ ...s3, endpoint })}
+            />
+            <Field
+              id="s3-region"
+              label={t('syncRegion')}
+              value={s3.region}
+              placeholder="us-east-1"
+              onChange={(region) => setS3({ ...s3, region })}
+            />
+            <Field
+              id="s3-bucket"
+              label={t('syncBucket')}
+              value={s3.bucket}
+              onChange={(bucket) => setS3({ ...s3, bucket })}
+            />
+            <Field
+              id="s3-prefix"
+              label={t('syncPrefix')}
+              value={s3.prefix}
+              placeholder="gemini-next-chat"
+              onChange={(prefix) => setS3({ ...s3, prefix })}
+            />
+            <Field
+              id="s3-access-key-id"
+              label="Access Key ID"
+              value={s3.accessKeyId}
+              onChange={(accessKeyId) => setS3({ ...s3, accessKeyId })}
+            />
+            <Field
+              id="s3-secret-access-key"
+              label="Secret Access Key"
+              type="password"
+              value={s3.secretAccessKey}
+              onChange={(secretAccessKey) => setS3({ ...s3, secretAccessKey })}
+            />
+          </>
+        ) : null}
+        {provider !== 'none' ? (
+          <>
+            <Field
+              id="sync-passphrase"
+              label={t('syncPassphrase')}
+              type="password"
+              value={passphrase}
+              placeholder={t('syncPassphrasePlaceholder')}
+              onChange={setPassphrase}
+            />
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right" htmlFor="auto-sync">
+                {t('autoSync')}
+              </Label>
+              <div className="col-span-3">
+                <Switch id="auto-sync" checked={autoSync} onCheckedChange={setAutoSync} />
+              </div>
+            </div>
+            <p className="text-slate-500">
+              {lastSyncTime > 0
+                ? t('lastSyncTime', { time: dayjs(lastSyncTime).format('YYYY-MM-DD HH:mm') })
+                : t('neverSynced')}
+            </p>
+          </>
+        ) : null}
+      </div>
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(SyncSetting)
@@ -0,0 +1,103 @@
+'use client'
+import { memo, useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useConversationStore } from '@/store/conversation'
+
+type Props = {
+  open: boolean
+  id: string
+  // All tags in use, offered as suggestions
+  allTags: string[]
+  onClose: () => void
+}
+
+function TagEditor({ open, id, allTags, onClose }: Props) {
+  const { t } = useTranslation()
+  const [tags, setTags] = useState<string[]>([])
+  const [text, setText] = useState<string>('')
+  const suggestions = useMemo(() => {
+    const keyword = text.trim().toLowerCase()
+    return allTags.filter((tag) => !tags.includes(tag) && tag.toLowerCase().includes(keyword)).slice(0, 10)
+  }, [allTags, tags, text])
+
+  const addTag = useCallback(
+    (tag: string) => {
+      const newTag = tag.trim()
+      if (newTag !== '' && !tags.includes(newTag)) setTags([...tags, newTag])
+      setText('')
+    },
+    [tags],
+  )
+
+  const handleSubmit = useCallback(() => {
+    const { setTags } = useConversationStore.getState()
+    const newTag = text.trim()
+    setTags(id, newTag !== '' && !tags.includes(newTag) ? [...tags, newTag] : tags)
+    onClose()
+  }, [id, tags, text, onClose])
+
+  useEffect(() => {
+    if (open) {
+      const { query } = useConversationStore.getState()
+      setTags(query(id)?.tags || [])
+      setText('')
+    }
+  }, [open, id])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={onClose}
+      title={t('editTags')}
+      description={t('editTagsDescription')}
+      footer={
+        <Button className="flex-1" onClick={() => handleSubmit()}>
+          {t('save')}
+        </Button>
+      }
+    >
+      <div className="flex flex-wrap gap-1 pb-2">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs text-secondary-foreground"
+          >
+            {tag}
+            <X className="h-3 w-3 cursor-pointer" onClick={() => setTags(tags.filter((item) => item !== tag))} />
+          </span>
+        ))}
+      </div>
+      <Input
+        value={text}
+        placeholder={t('tagPlaceholder')}
+        autoFocus
+        onChange={(ev) => setText(ev.target.value)}
+        onKeyDown={(ev) => {
+          if ((ev.key === 'Enter' || ev.key === ',') && !ev.nativeEvent.isComposing) {
+            ev.preventDefault()
+            addTag(text)
+          }
+        }}
+      />
+      {suggestions.length > 0 ? (
+        <div className="flex flex-wrap gap-1 pt-2">
+          {suggestions.map((tag) => (
+            <span
+              key={tag}
+              className="cursor-pointer rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-secondary"
+              onClick={() => addTag(tag)}
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(TagEditor)
@@ -0,0 +1,121 @@
+'use client'
+import { memo, useCallback, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { MessageSquareText, MessagesSquare, Undo2, Trash2 } from 'lucide-react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useTrashStore, TRASH_RETENTION_DAYS } from '@/store/trash'
+import { useConversationStore } from '@/store/conversation'
+import { restoreTrashItems } from '@/utils/trash'
+import dayjs from 'dayjs'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+function getMessageText(message?: Message) {
+  if (!message) return ''
+  return message.parts
+    .map((part) => part.text || '')
+    .join(' ')
+    .trim()
+}
+
+function TrashBin({ open, onClose }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const items = useTrashStore((state) => state.items)
+  const conversationList = useConversationStore((state) => state.conversationList)
+
+  const handleRestore = useCallback(
+    (item: TrashItem) => {
+      if (restoreTrashItems([item]).length === 0) {
+        toast({ title: t('restoreFailed'), description: t('conversationNotFound') })
+      }
+    },
+    [t, toast],
+  )
+
+  const handlePurge = useCallback((id: string) => {
+    const { remove } = useTrashStore.getState()
+    remove([id])
+  }, [])
+
+  const handleEmpty = useCallback(() => {
+    const { clear } = useTrashStore.getState()
+    clear()
+  }, [])
+
+  useEffect(() => {
+    if (open) useTrashStore.getState().purgeExpired()
+  }, [open])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={onClose}
+      title={t('trash')}
+      description={t('trashDescription', { days: TRASH_RETENTION_DAYS })}
+      footer={
+        <Button className="flex-1" variant="destructive" disabled={items.length === 0} onClick={() => handleEmpty()}>
+          {t('emptyTrash')}
+        </Button>
+      }
+    >
+      {items.length > 0 ? (
+        <ScrollArea className="h-[300px] w-full">
+          {items.map((item) => {
+            const isMessage = item.type === 'message'
+            const conversationTitle = isMessage
+              ? conversationList[item.conversationId]?.title
+              : item.conversation?.title
+            const expiredAt = dayjs(item.deletedAt).add(TRASH_RETENTION_DAYS, 'day')
+            return (
+              <div key={item.id} className="flex items-center gap-2 border-b py-2 text-sm">
+                {isMessage ? (
+                  <MessageSquareText className="h-4 w-4 shrink-0 text-slate-500" />
+                ) : (
+                  <MessagesSquare className="h-4 w-4 shrink-0 text-slate-500" />
+                )}
+                <div className="flex-1 overflow-hidden">
+                  <p className="truncate">
+                    {isMessage ? getMessageText(item.message) : conversationTitle || t('chatAnything')}
+                  </p>
+                  <p className="truncate text-xs text-slate-500">
+                    {isMessage ? `${conversationTitle || t('chatAnything')} · ` : ''}
+                    {t('trashExpiresIn', { days: Math.max(expiredAt.diff(dayjs(), 'day'), 0) })}
+                  </p>
+                </div>
+                <Button
+                  className="h-8 w-8 shrink-0"
+                  variant="ghost"
+                  size="icon"
+                  title={t('restore')}
+                  onClick={() => handleRestore(item)}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  className="h-8 w-8 shrink-0 hover:text-red-500"
+                  variant="ghost"
+                  size="icon"
+                  title={t('deletePermanently')}
+                  onClick={() => handlePurge(item.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </ScrollArea>
+      ) : (
+        <p className="py-8 text-center text-sm text-slate-500">{t('trashEmpty')}</p>
+      )}
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(TrashBin)
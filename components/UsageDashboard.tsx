@@ -0,0 +1,218 @@
+'use client'
+import { memo, useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Trash2 } from 'lucide-react'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Input } from '@/components/ui/input'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useUsageStore } from '@/store/usage'
+import { useConversationStore } from '@/store/conversation'
+import { useMessageStore } from '@/store/chat'
+import { summarizeUsage, formatCost, type UsageGroup } from '@/utils/usage'
+import { formatTokenCount } from '@/utils/tokenizer'
+import { entries, sumBy } from 'lodash-es'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+const usageGroups: UsageGroup[] = ['conversation', 'model', 'apiKey', 'day']
+
+const priceFields: Array<keyof ModelPrice> = ['input', 'cached', 'output']
+
+function UsageDashboard({ open, onClose }: Props) {
+  const { t } = useTranslation()
+  const prices = useUsageStore((state) => state.prices)
+  const [conversationList, setConversationList] = useState<Record<string, Conversation>>({})
+  const [currentTab, setCurrentTab] = useState<string>('conversation')
+  const [newModel, setNewModel] = useState<string>('')
+  // The price inputs are uncontrolled, they are mounted again after the prices are reset
+  const [priceVersion, setPriceVersion] = useState<number>(0)
+
+  const summaries = useMemo(() => {
+    const result: Record<string, ReturnType<typeof summarizeUsage>> = {}
+    for (const group of usageGroups) {
+      result[group] = summarizeUsage(conversationList, group, prices)
+    }
+    return result
+  }, [conversationList, prices])
+
+  const total = useMemo(() => {
+    const list = summaries['model'] || []
+    return { tokens: sumBy(list, 'totalTokens'), cost: sumBy(list, 'cost') }
+  }, [summaries])
+
+  const getLabel = useCallback(
+    (group: UsageGroup, key: string) => {
+      if (group === 'conversation') {
+        if (key === 'default') return t('defaultConversation')
+        return conversationList[key]?.title || t('chatAnything')
+      }
+      if (group === 'model') return key || t('unknownModel')
+      if (group === 'apiKey') return key || t('serverApiKey')
+      return key
+    },
+    [conversationList, t],
+  )
+
+  const handlePriceChange = useCallback((model: string, field: keyof ModelPrice, value: string) => {
+    const { prices, setPrice } = useUsageStore.getState()
+    const price = parseFloat(value)
+    setPrice(model, { ...prices[model], [field]: isNaN(price) ? 0 : price })
+  }, [])
+
+  const handleAddModel = useCallback(() => {
+    const model = newModel.trim()
+    if (model === '') return
+    const { prices, setPrice } = useUsageStore.getState()
+    if (!prices[model]) setPrice(model, { input: 0, output: 0, cached: 0 })
+    setNewModel('')
+  }, [newModel])
+
+  const handleResetPrices = useCallback(() => {
+    useUsageStore.getState().reset()
+    setPriceVersion((version) => version + 1)
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      // The opened conversation may not have been saved to the list yet
+      const { conversationList, currentId } = useConversationStore.getState()
+      const { backup } = useMessageStore.getState()
+      setConversationList({ ...conversationList, [currentId]: { ...conversationList[currentId], ...backup() } })
+    }
+  }, [open])
+
+  return (
+    <ResponsiveDialog
+      className="sm:max-w-2xl"
+      open={open}
+      onClose={onClose}
+      title={t('usageDashboard')}
+      description={t('usageDashboardDescription', {
+        tokens: formatTokenCount(total.tokens),
+        cost: formatCost(total.cost),
+      })}
+    >
+      <Tabs value={currentTab} onValueChange={setCurrentTab}>
+        <TabsList className="mx-auto grid w-full grid-cols-5">
+          {usageGroups.map((group) => (
+            <TabsTrigger key={group} value={group}>
+              {t(`usageBy.${group}`)}
+            </TabsTrigger>
+          ))}
+          <TabsTrigger value="prices">{t('priceTable')}</TabsTrigger>
+        </TabsList>
+        {usageGroups.map((group) => (
+          <TabsContent key={group} value={group}>
+            <ScrollArea className="h-[360px] w-full">
+              {summaries[group].length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t(`usageBy.${group}`)}</TableHead>
+                      <TableHead className="text-right">{t('answers')}</TableHead>
+                      <TableHead className="text-right">{t('inputTokens')}</TableHead>
+                      <TableHead className="text-right">{t('outputTokens')}</TableHead>
+                      <TableHead className="text-right">{t('cost')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries[group].map((item) => (
+                      <TableRow key={item.key}>
+                        <TableCell className="max-w-48 truncate">{getLabel(group, item.key)}</TableCell>
+                        <TableCell className="text-right font-mono">{item.answers}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatTokenCount(item.promptTokens)}
+                          {item.cachedTokens > 0 ? (
+                            <span className="text-slate-500"> ({formatTokenCount(item.cachedTokens)})</span>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatTokenCount(item.candidatesTokens + item.thoughtsTokens)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatCost(item.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="py-8 text-center text-sm text-slate-500">{t('noUsage')}</p>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        ))}
+        <TabsContent value="prices">
+          <p className="pb-2 text-sm text-slate-500">{t('priceTableDescription')}</p>
+          <ScrollArea className="h-[320px] w-full">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('model')}</TableHead>
+                  {priceFields.map((field) => (
+                    <TableHead key={field}>{t(`price.${field}`)}</TableHead>
+                  ))}
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody key={priceVersion}>
+                {entries(prices).map(([model, price]) => (
+                  <TableRow key={model}>
+                    <TableCell className="max-w-40 truncate">{model}</TableCell>
+                    {priceFields.map((field) => (
+                      <TableCell key={field} className="py-1">
+                        <Input
+                          className="h-8 w-20"
+                          type="number"
+                          min={0}
+                          step="any"
+                          defaultValue={price[field]}
+                          onChange={(ev) => handlePriceChange(model, field, ev.target.value)}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className="py-1">
+                      <Button
+                        className="h-8 w-8 hover:text-red-500"
+                        variant="ghost"
+                        size="icon"
+                        title={t('delete')}
+                        onClick={() => useUsageStore.getState().removePrice(model)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+          <div className="flex gap-2 pt-2">
+            <Input
+              className="h-8 flex-1"
+              value={newModel}
+              placeholder={t('modelName')}
+              onChange={(ev) => setNewModel(ev.target.value)}
+              onKeyDown={(ev) => {
+                if (ev.key === 'Enter') handleAddModel()
+              }}
+            />
+            <Button className="h-8" variant="secondary" disabled={newModel.trim() === ''} onClick={handleAddModel}>
+              <Plus className="mr-1 h-4 w-4" />
+              {t('addModelPrice')}
+            </Button>
+            <Button className="h-8" variant="ghost" onClick={handleResetPrices}>
+              {t('resetPrices')}
+            </Button>
+          </div>
+        </TabsContent>
+      </Tabs>
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(UsageDashboard)
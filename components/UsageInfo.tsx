@@ -0,0 +1,45 @@
+'use client'
+import { memo, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Coins } from 'lucide-react'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { useUsageStore } from '@/store/usage'
+import { estimateCost, formatCost, getModelPrice } from '@/utils/usage'
+import { formatTokenCount } from '@/utils/tokenizer'
+import dayjs from 'dayjs'
+
+type Props = {
+  usage: MessageUsage
+  model?: string
+  createdAt?: number
+}
+
+function UsageInfo({ usage, model, createdAt }: Props) {
+  const { t } = useTranslation()
+  const prices = useUsageStore((state) => state.prices)
+  const price = useMemo(() => getModelPrice(model, prices), [model, prices])
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex cursor-default items-center gap-1 rounded-full p-1.5 text-xs text-slate-500 hover:bg-secondary">
+            <Coins className="h-4 w-4" />
+            <span className="font-mono">{formatTokenCount(usage.totalTokens)}</span>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent className="text-left text-xs leading-5">
+          {model ? <p className="font-medium">{model}</p> : null}
+          <p>{t('promptTokens', { count: usage.promptTokens })}</p>
+          {usage.cachedTokens > 0 ? <p>{t('cachedTokens', { count: usage.cachedTokens })}</p> : null}
+          <p>{t('candidatesTokens', { count: usage.candidatesTokens })}</p>
+          {usage.thoughtsTokens > 0 ? <p>{t('thoughtsTokens', { count: usage.thoughtsTokens })}</p> : null}
+          <p>{t('estimatedCost', { cost: price ? formatCost(estimateCost(usage, price)) : '-' })}</p>
+          {createdAt ? <p className="text-slate-500">{dayjs(createdAt).format('YYYY-MM-DD HH:mm:ss')}</p> : null}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+export default memo(UsageInfo)
@@ -0,0 +1,209 @@
+'use client'
+import { memo, useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Check, X, Pencil, Trash2, Plus, Sparkles, LoaderCircle } from 'lucide-react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import { useMemoryStore } from '@/store/memory'
+import { useSettingStore } from '@/store/setting'
+import { useMessageStore } from '@/store/chat'
+import { useAssistantStore } from '@/store/assistant'
+import { scanUserMemories } from '@/utils/userMemory'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+function UserMemory({ open, onClose }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const userMemory = useSettingStore((state) => state.userMemory)
+  const memories = useMemoryStore((state) => state.memories)
+  const candidates = useMemoryStore((state) => state.candidates)
+  const disabledAssistants = useMemoryStore((state) => state.disabledAssistants)
+  const assistant = useMessageStore((state) => state.assistant)
+  const assistants = useAssistantStore((state) => state.assistants)
+  const [editingId, setEditingId] = useState<string>('')
+  const [editingContent, setEditingContent] = useState<string>('')
+  const [newMemory, setNewMemory] = useState<string>('')
+  const [isScanning, setIsScanning] = useState<boolean>(false)
+
+  const assistantTitle = useMemo(() => {
+    if (!assistant) return ''
+    return assistants.find((item) => item.identifier === assistant)?.meta.title || assistant
+  }, [assistant, assistants])
+
+  const handleEdit = useCallback((memory: UserMemory) => {
+    setEditingId(memory.id)
+    setEditingContent(memory.content)
+  }, [])
+
+  const handleSaveEdit = useCallback(() => {
+    const content = editingContent.trim()
+    if (content !== '') useMemoryStore.getState().update(editingId, { content })
+    setEditingId('')
+  }, [editingId, editingContent])
+
+  const handleAdd = useCallback(() => {
+    const content = newMemory.trim()
+    if (content === '') return
+    useMemoryStore.getState().add(content)
+    setNewMemory('')
+  }, [newMemory])
+
+  const handleScan = useCallback(async () => {
+    setIsScanning(true)
+    try {
+      const count = await scanUserMemories(true)
+      if (count === 0) toast({ title: t('noNewMemories') })
+    } catch (err) {
+      if (err instanceof Error) toast({ title: err.message })
+    } finally {
+      setIsScanning(false)
+    }
+  }, [toast, t])
+
+  return (
+    <ResponsiveDialog
+      className="sm:max-w-xl"
+      open={open}
+      onClose={onClose}
+      title={t('userMemory')}
+      description={t('userMemoryDescription')}
+    >
+      <div className="grid gap-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="user-memory">{t('enableUserMemory')}</Label>
+          <Switch
+            id="user-memory"
+            checked={userMemory}
+            onCheckedChange={(checked) => useSettingStore.getState().update({ userMemory: checked })}
+          />
+        </div>
+        {assistant ? (
+          <div className="flex items-center justify-between gap-4">
+            <Label className="truncate" htmlFor="user-memory-assistant">
+              {t('userMemoryForAssistant', { assistant: assistantTitle })}
+            </Label>
+            <Switch
+              id="user-memory-assistant"
+              checked={!disabledAssistants.includes(assistant)}
+              onCheckedChange={(checked) => useMemoryStore.getState().toggleAssistant(assistant, checked)}
+            />
+          </div>
+        ) : null}
+        {candidates.length > 0 ? (
+          <div className="grid gap-1">
+            <p className="text-sm font-medium">{t('pendingMemories')}</p>
+            {candidates.map((item) => (
+              <div key={item.id} className="flex items-center gap-2 rounded-md bg-secondary px-2 py-1">
+                <p className="flex-1 text-sm">{item.content}</p>
+                <Button
+                  className="h-8 w-8 hover:text-green-600"
+                  variant="ghost"
+                  size="icon"
+                  title={t('rememberIt')}
+                  onClick={() => useMemoryStore.getState().accept(item.id)}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  className="h-8 w-8 hover:text-red-500"
+                  variant="ghost"
+                  size="icon"
+                  title={t('dismiss')}
+                  onClick={() => useMemoryStore.getState().dismiss(item.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        <ScrollArea className="h-[280px] w-full">
+          {memories.length > 0 ? (
+            <div className="grid gap-1">
+              {memories.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 px-1 py-1">
+                  <Switch
+                    checked={item.enabled}
+                    title={item.enabled ? t('settingEnable') : t('settingDisable')}
+                    onCheckedChange={(checked) => useMemoryStore.getState().update(item.id, { enabled: checked })}
+                  />
+                  {editingId === item.id ? (
+                    <Input
+                      className="h-8 flex-1"
+                      value={editingContent}
+                      autoFocus
+                      onChange={(ev) => setEditingContent(ev.target.value)}
+                      onBlur={handleSaveEdit}
+                      onKeyDown={(ev) => {
+                        if (ev.key === 'Enter') handleSaveEdit()
+                        if (ev.key === 'Escape') setEditingId('')
+                      }}
+                    />
+                  ) : (
+                    <p className={`flex-1 text-sm ${item.enabled ? '' : 'text-slate-500 line-through'}`}>
+                      {item.content}
+                    </p>
+                  )}
+                  <Button
+                    className="h-8 w-8"
+                    variant="ghost"
+                    size="icon"
+                    title={t('edit')}
+                    onClick={() => handleEdit(item)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    className="h-8 w-8 hover:text-red-500"
+                    variant="ghost"
+                    size="icon"
+                    title={t('delete')}
+                    onClick={() => useMemoryStore.getState().remove(item.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="py-8 text-center text-sm text-slate-500">{t('noMemories')}</p>
+          )}
+        </ScrollArea>
+        <div className="flex gap-2">
+          <Input
+            className="h-8 flex-1"
+            value={newMemory}
+            placeholder={t('addMemoryPlaceholder')}
+            onChange={(ev) => setNewMemory(ev.target.value)}
+            onKeyDown={(ev) => {
+              if (ev.key === 'Enter') handleAdd()
+            }}
+          />
+          <Button className="h-8" variant="secondary" disabled={newMemory.trim() === ''} onClick={handleAdd}>
+            <Plus className="mr-1 h-4 w-4" />
+            {t('addMemory')}
+          </Button>
+          <Button className="h-8" variant="ghost" disabled={isScanning} onClick={handleScan}>
+            {isScanning ? (
+              <LoaderCircle className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Sparkles className="mr-1 h-4 w-4" />
+            )}
+            {t('extractMemories')}
+          </Button>
+        </div>
+      </div>
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(UserMemory)
@@ -0,0 +1,185 @@
+'use client'
+import { memo, useCallback, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FileUp, Download } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import Button from '@/components/Button'
+import ResponsiveDialog from '@/components/ResponsiveDialog'
+import {
+  createBackup,
+  parseBackup,
+  getConversationConflicts,
+  restoreBackup,
+  type WorkspaceBackup as WorkspaceBackupData,
+  type ConversationConflict,
+  type RestoreMode,
+  type ConflictResolution,
+} from '@/utils/workspace'
+import { downloadFile } from '@/utils/common'
+import dayjs from 'dayjs'
+import { keys } from 'lodash-es'
+
+type Props = {
+  open: boolean
+  onClose: () => void
+  onRestored?: () => void
+}
+
+function WorkspaceBackup({ open, onClose, onRestored }: Props) {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [excludeApiKeys, setExcludeApiKeys] = useState<boolean>(true)
+  const [backup, setBackup] = useState<WorkspaceBackupData>()
+  const [conflicts, setConflicts] = useState<ConversationConflict[]>([])
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [resolution, setResolution] = useState<ConflictResolution>('local')
+
+  const handleClose = useCallback(() => {
+    setBackup(undefined)
+    setConflicts([])
+    onClose()
+  }, [onClose])
+
+  const handleBackup = useCallback(async () => {
+    const data = await createBackup(excludeApiKeys)
+    downloadFile(
+      JSON.stringify(data),
+      `gemini-next-chat-backup-${dayjs().format('YYYYMMDD-HHmmss')}.json`,
+      'application/json',
+    )
+  }, [excludeApiKeys])
+
+  const handleFileChange = useCallback(
+    async (files: FileList | null) => {
+      if (!files || files.length === 0) return false
+      try {
+        const data = parseBackup(await files[0].text())
+        setBackup(data)
+        setConflicts(getConversationConflicts(data))
+      } catch (err) {
+        toast({
+          title: t('invalidBackupFile'),
+          description: err instanceof Error ? err.message : String(err),
+        })
+      }
+      if (fileRef.current) fileRef.current.value = ''
+    },
+    [t, toast],
+  )
+
+  const handleRestore = useCallback(async () => {
+    if (!backup) return false
+    try {
+      const result = await restoreBackup(backup, mode, resolution)
+      toast({
+        title: t('workspaceRestored'),
+        description: t('workspaceRestoredDescription', {
+          added: result.added.length,
+          updated: result.updated.length,
+          skipped: result.skipped.length,
+        }),
+      })
+      if (onRestored) onRestored()
+      handleClose()
+    } catch (err) {
+      toast({
+        title: t('restoreFailed'),
+        description: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }, [backup, mode, resolution, t, toast, onRestored, handleClose])
+
+  return (
+    <ResponsiveDialog
+      open={open}
+      onClose={handleClose}
+      title={t('workspaceBackup')}
+      description={t('workspaceBackupDescription')}
+      footer={
+        backup ? (
+          <Button className="flex-1" onClick={() => handleRestore()}>
+            {t('restoreWorkspace')}
+          </Button>
+        ) : null
+      }
+    >
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(ev) => handleFileChange(ev.target.files)}
+      />
+      <div className="grid gap-4 text-sm">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="exclude-api-keys">{t('excludeApiKeys')}</Label>
+          <Switch id="exclude-api-keys" checked={excludeApiKeys} onCheckedChange={setExcludeApiKeys} />
+        </div>
+        <div className="flex gap-2">
+          <Button className="flex-1" variant="outline" onClick={() => handleBackup()}>
+            <Download className="mr-1 h-4 w-4" />
+            {t('downloadBackup')}
+          </Button>
+          <Button className="flex-1" variant="outline" onClick={() => fileRef.current?.click()}>
+            <FileUp className="mr-1 h-4 w-4" />
+            {t('selectBackupFile')}
+          </Button>
+        </div>
+        {backup ? (
+          <div className="grid gap-3 border-t pt-3">
+            <p className="text-slate-500">
+              {t('backupSummary', {
+                date: dayjs(backup.createdAt).format('YYYY-MM-DD HH:mm'),
+                count: keys(backup.stores.conversationStore?.state.conversationList).length,
+              })}
+            </p>
+            <RadioGroup className="flex gap-4" value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem id="restore-merge" value="merge" />
+                <Label htmlFor="restore-merge">{t('mergeWorkspace')}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem id="restore-replace" value="replace" />
+                <Label htmlFor="restore-replace">{t('replaceWorkspace')}</Label>
+              </div>
+            </RadioGroup>
+            {conflicts.length > 0 ? (
+              <div className="grid gap-2">
+                <p className="text-amber-600">{t('conversationConflicts', { count: conflicts.length })}</p>
+                <div className="max-h-40 overflow-y-auto rounded border">
+                  {conflicts.map((conflict) => (
+                    <div key={conflict.id} className="flex justify-between gap-2 border-b px-2 py-1 text-xs">
+                      <span className="truncate">
+                        {conflict.localTitle || conflict.backupTitle || t('chatAnything')}
+                      </span>
+                      <code className="shrink-0 text-slate-500">{conflict.id}</code>
+                    </div>
+                  ))}
+                </div>
+                {mode === 'merge' ? (
+                  <Select value={resolution} onValueChange={(value) => setResolution(value as ConflictResolution)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="local">{t('keepLocalConversation')}</SelectItem>
+                      <SelectItem value="backup">{t('useBackupConversation')}</SelectItem>
+                      <SelectItem value="both">{t('keepBothConversations')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </ResponsiveDialog>
+  )
+}
+
+export default memo(WorkspaceBackup)
@@ -14,3 +14,17 @@ export const OldVisionModel = ['gemini-pro-vision', 'gemini-1.0-pro-vision-lates
 export const OldTextModel = ['gemini-1.0-pro', 'gemini-1.0-pro-latest', 'gemini-pro']
 
 export const DefaultModel = 'gemini-2.0-flash'
+
+export const EmbeddingModels = ['text-embedding-004', 'gemini-embedding-exp-03-07']
+
+// The embeddings are computed in the browser without calling the api
+export const LocalEmbeddingModel = 'local'
+
+// The paid tier prices in USD per million tokens, the higher price of the prompts over 128K tokens is ignored
+export const DefaultModelPrice: Record<string, ModelPrice> = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cached: 0.025 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3, cached: 0.01875 },
+  'gemini-1.5-pro': { input: 1.25, output: 5, cached: 0.3125 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3, cached: 0.01875 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15, cached: 0.01 },
+}
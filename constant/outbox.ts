@@ -0,0 +1,3 @@
+// Shared by the page and the service worker
+export const OUTBOX_SYNC_TAG = 'outbox'
+export const OUTBOX_SYNC_MESSAGE = 'outbox-sync'
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react'
+
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState<boolean>(true)
+
+  useEffect(() => {
+    const onChange = () => setIsOnline(navigator.onLine)
+    window.addEventListener('online', onChange)
+    window.addEventListener('offline', onChange)
+    onChange()
+    return () => {
+      window.removeEventListener('online', onChange)
+      window.removeEventListener('offline', onChange)
+    }
+  }, [])
+
+  return isOnline
+}
@@ -2,13 +2,14 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { generateSignature, generateUTCTimestamp, decodeToken } from '@/utils/signature'
 import { ErrorType } from '@/constant/errors'
+import { Md5 } from 'ts-md5'
 import { isNull } from 'lodash-es'
 
 const password = process.env.ACCESS_PASSWORD || ''
 const uploadLimit = Number(process.env.NEXT_PUBLIC_UPLOAD_LIMIT || '0')
 
-const proxyRoutes = ['/api/google/upload/v1beta/files', '/api/google/v1beta/files']
-const apiRoutes = ['/api/chat', '/api/upload', '/api/models']
+const proxyRoutes = ['/api/google/upload/v1beta/files', '/api/google/v1beta/files', '/api/google/v1beta/cachedContents']
+const apiRoutes = ['/api/chat', '/api/upload', '/api/models', '/api/cache']
 
 // Limit the middleware to paths starting with `/api/`
 export const config = {
@@ -29,6 +30,13 @@ function checkToken(token: string): boolean {
   return true
 }
 
+// The OpenAI clients keep a static api key, so the access password itself is accepted besides the token
+function checkApiKey(key: string): boolean {
+  if (password === '') return true
+  // The digests are compared, so the comparison time does not tell how much of the password matches
+  return Md5.hashStr(key) === Md5.hashStr(password) || checkToken(key)
+}
+
 export function middleware(request: NextRequest) {
   for (const proxyRoute of proxyRoutes) {
     if (request.nextUrl.pathname.startsWith(proxyRoute)) {
@@ -52,6 +60,15 @@ export function middleware(request: NextRequest) {
       }
     }
   }
+  if (request.nextUrl.pathname.startsWith('/api/v1/')) {
+    const token = request.headers.get('Authorization')?.replace('Bearer ', '') || ''
+    if (!checkApiKey(token)) {
+      return NextResponse.json(
+        { error: { message: ErrorType.InValidToken, type: 'invalid_request_error', code: 40301 } },
+        { status: 403 },
+      )
+    }
+  }
   if (request.nextUrl.pathname.startsWith('/api/google/v1beta/models/')) {
     const token = request.headers.get('X-Goog-Api-Key')
     if (isNull(token) || !checkToken(token)) {
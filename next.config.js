@@ -80,6 +80,14 @@ module.exports = async (phase) => {
             source: '/api/google/v1beta/models/:model',
             destination: '/api/chat?model=:model',
           },
+          {
+            source: '/api/google/v1beta/cachedContents',
+            destination: '/api/cache',
+          },
+          {
+            source: '/api/google/v1beta/cachedContents/:id',
+            destination: '/api/cache?id=:id',
+          },
           {
             source: '/api/google/upload/v1beta/files',
             has: [
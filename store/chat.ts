@@ -2,27 +2,41 @@ import { create } from 'zustand'
 import { persist, type StorageValue } from 'zustand/middleware'
 import type { InlineDataPart } from '@xiangfa/generative-ai'
 import storage from '@/utils/Storage'
-import { findIndex, omitBy, pick, isFunction } from 'lodash-es'
+import { findIndex, omit, omitBy, pick, isFunction } from 'lodash-es'
 
 type MessageStore = {
   title: string
   messages: Message[]
   references: InlineDataPart[]
   summary: Summary
+  branches: Record<string, MessageBranch>
   systemInstruction: string
+  assistant?: string
   systemInstructionEditMode: boolean
-  chatLayout: 'chat' | 'doc'
+  chatLayout: 'chat' | 'doc' | 'compare'
+  compareModels: string[]
+  setting: ConversationSetting
+  structuredOutput: StructuredOutput
+  cache?: ContextCache
+  knowledgeBaseIds: string[]
   add: (message: Message) => void
   update: (id: string, message: Message) => void
   remove: (id: string) => void
+  insert: (index: number, message: Message) => void
   clear: () => void
-  revoke: (id: string) => void
-  instruction: (prompt: string, title?: string) => void
+  branch: (id: string, message?: Message) => void
+  switchBranch: (id: string, index: number) => void
+  instruction: (prompt: string, title?: string, assistant?: string) => void
   setSystemInstructionEditMode: (open: boolean) => void
   updateReference: (reference: InlineDataPart) => void
   clearReference: () => void
   summarize: (ids: string[], content: string) => void
-  changeChatLayout: (type: 'chat' | 'doc') => void
+  changeChatLayout: (type: 'chat' | 'doc' | 'compare') => void
+  setCompareModels: (models: string[]) => void
+  updateSetting: (setting: ConversationSetting) => void
+  updateStructuredOutput: (structuredOutput: StructuredOutput) => void
+  updateCache: (cache?: ContextCache) => void
+  setKnowledgeBases: (ids: string[]) => void
   setTitle: (title: string) => void
   backup: () => Conversation
   restore: (conversation: Conversation) => void
@@ -38,9 +52,14 @@ export const useMessageStore = create(
         ids: [],
         content: '',
       },
+      branches: {},
       systemInstruction: '',
       systemInstructionEditMode: false,
       chatLayout: 'doc',
+      compareModels: [],
+      setting: {},
+      structuredOutput: { enabled: false, schema: '' },
+      knowledgeBaseIds: [],
       add: (message) => {
         set((state) => ({
           messages: [...state.messages, message],
@@ -55,26 +74,75 @@ export const useMessageStore = create(
         }
       },
       remove: (id) => {
-        const newMessages = get().messages.filter((item) => item.id !== id)
-        set(() => ({ messages: newMessages }))
+        const { messages, branches } = get()
+        const index = findIndex(messages, { id })
+        const newMessages = messages.filter((item) => item.id !== id)
+        let newBranches = branches
+        // The branches keyed by the removed message now fork after the message before it,
+        // they are dropped when that message already has its own branches
+        if (index > -1 && branches[id]) {
+          const parentId = index > 0 ? messages[index - 1].id : 'root'
+          newBranches = omit(branches, [id])
+          if (!branches[parentId]) newBranches[parentId] = branches[id]
+        }
+        set(() => ({ messages: newMessages, branches: newBranches }))
+      },
+      insert: (index, message) => {
+        const messages = [...get().messages]
+        messages.splice(index, 0, message)
+        set(() => ({ messages }))
       },
       clear: () => {
         set(() => ({
           messages: [],
           summary: { ids: [], content: '' },
+          branches: {},
+          cache: undefined,
         }))
       },
-      revoke: (id) => {
-        const messages = [...get().messages]
+      branch: (id, message) => {
+        const { messages, branches, summary } = get()
         const index = findIndex(messages, { id })
-        if (index > -1) {
-          messages.splice(index, 1)
-          set(() => ({ messages: messages.slice(0, index) }))
-        }
+        if (index === -1) return
+        // Branches are keyed by the message that precedes the fork point
+        const parentId = index > 0 ? messages[index - 1].id : 'root'
+        const tail = messages.slice(index)
+        const record: MessageBranch = branches[parentId]
+          ? { current: branches[parentId].current, list: [...branches[parentId].list] }
+          : { current: 0, list: [] }
+        record.list[record.current] = tail
+        record.list.push(message ? [message] : [])
+        record.current = record.list.length - 1
+        set(() => ({
+          messages: message ? [...messages.slice(0, index), message] : messages.slice(0, index),
+          branches: { ...branches, [parentId]: record },
+          summary: tail.some((item) => summary.ids.includes(item.id)) ? { ids: [], content: '' } : summary,
+        }))
+      },
+      switchBranch: (id, index) => {
+        const { messages, branches, summary } = get()
+        const position = findIndex(messages, { id })
+        if (position === -1) return
+        const parentId = position > 0 ? messages[position - 1].id : 'root'
+        const record = branches[parentId]
+        if (!record || !record.list[index] || index === record.current) return
+        const tail = messages.slice(position)
+        const list = [...record.list]
+        list[record.current] = tail
+        set(() => ({
+          messages: [...messages.slice(0, position), ...list[index]],
+          branches: { ...branches, [parentId]: { current: index, list } },
+          summary: tail.some((item) => summary.ids.includes(item.id)) ? { ids: [], content: '' } : summary,
+        }))
       },
-      instruction: (prompt, title) => {
+      instruction: (prompt, title, assistant) => {
         if (title) set(() => ({ title }))
-        set(() => ({ title, systemInstruction: prompt }))
+        // An edited instruction still belongs to its assistant, until it is cleared or replaced by another one
+        set((state) => ({
+          title,
+          systemInstruction: prompt,
+          assistant: prompt === '' ? undefined : assistant || state.assistant,
+        }))
       },
       setSystemInstructionEditMode: (open) => {
         set(() => ({ systemInstructionEditMode: open }))
@@ -90,15 +158,54 @@ export const useMessageStore = create(
       changeChatLayout: (type) => {
         set(() => ({ chatLayout: type }))
       },
+      setCompareModels: (models) => {
+        set(() => ({ compareModels: [...models] }))
+      },
+      updateSetting: (setting) => {
+        set(() => ({ setting: { ...setting } }))
+      },
+      updateStructuredOutput: (structuredOutput) => {
+        set(() => ({ structuredOutput: { ...structuredOutput } }))
+      },
+      updateCache: (cache) => {
+        set(() => ({ cache }))
+      },
+      setKnowledgeBases: (ids) => {
+        set(() => ({ knowledgeBaseIds: ids }))
+      },
       setTitle: (title) => {
         set(() => ({ title }))
       },
       backup: () => {
         const store = get()
-        return { ...pick(store, ['title', 'messages', 'summary', 'systemInstruction', 'chatLayout']) }
+        return {
+          ...pick(store, [
+            'title',
+            'messages',
+            'summary',
+            'branches',
+            'systemInstruction',
+            'assistant',
+            'chatLayout',
+            'compareModels',
+            'setting',
+            'structuredOutput',
+            'cache',
+            'knowledgeBaseIds',
+          ]),
+        }
       },
       restore: (conversation) => {
-        set(() => ({ ...conversation }))
+        set(() => ({
+          branches: {},
+          compareModels: [],
+          setting: {},
+          structuredOutput: { enabled: false, schema: '' },
+          cache: undefined,
+          assistant: undefined,
+          knowledgeBaseIds: [],
+          ...conversation,
+        }))
       },
     }),
     {
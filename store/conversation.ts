@@ -1,36 +1,67 @@
 import { create } from 'zustand'
 import { persist, type StorageValue } from 'zustand/middleware'
 import storage from '@/utils/Storage'
-import { omitBy, isFunction } from 'lodash-es'
+import SearchIndex, { type SearchFilter, type SearchResult } from '@/utils/SearchIndex'
+import { omit, omitBy, isFunction, isEqual, isUndefined, pick, values } from 'lodash-es'
 
-type ConversationStore = {
+type ConversationData = {
   conversationList: Record<string, Conversation>
   pinned: string[]
+  folders: ConversationFolder[]
   currentId: string
+}
+
+type ConversationStore = ConversationData & {
   query: (id: string) => Conversation
   addOrUpdate: (id: string, conversation: Conversation) => void
   remove: (id: string) => void
   pin: (id: string) => void
   unpin: (id: string) => void
   copy: (id: string, newId: string) => void
+  addFolder: (folder: ConversationFolder) => void
+  renameFolder: (id: string, name: string) => void
+  removeFolder: (id: string) => void
+  toggleFolder: (id: string) => void
+  moveToFolder: (ids: string[], folderId?: string) => void
+  setTags: (id: string, tags: string[]) => void
   setCurrentId: (id: string) => void
+  restore: (data: Partial<ConversationData>) => void
+  search: (query: string, filter?: SearchFilter) => SearchResult[]
+  getSearchModels: () => string[]
 }
 
+// The index is rebuilt from the conversation list after rehydration, so it is not persisted
+const searchIndex = new SearchIndex()
+
 export const useConversationStore = create(
   persist<ConversationStore>(
     (set, get) => ({
       conversationList: {},
       pinned: [],
+      folders: [],
       currentId: 'default',
       query: (id) => get().conversationList[id],
       addOrUpdate: (id, conversation) => {
         const list = get().conversationList
-        list[id] = { ...conversation }
+        // The folder and tags are managed by the sidebar, keep them when the conversation is saved from the chat
+        // The undefined values are dropped, the restored conversations would look changed because of them
+        const merged: Conversation = { ...pick(list[id], ['folderId', 'tags', 'updatedAt']), ...conversation }
+        const newConversation = omitBy(merged, isUndefined) as Conversation
+        // The update time is used by the sync, only bump it when the content changes
+        if (
+          !list[id] ||
+          !isEqual(omitBy(omit(list[id], ['updatedAt']), isUndefined), omit(newConversation, ['updatedAt']))
+        ) {
+          newConversation.updatedAt = Date.now()
+        }
+        list[id] = newConversation
+        searchIndex.add(id, list[id])
         set(() => ({ conversationList: { ...list } }))
       },
       remove: (id) => {
         const list = get().conversationList
         delete list[id]
+        searchIndex.remove(id)
         set(() => ({ conversationList: { ...list } }))
       },
       pin: (id) => {
@@ -45,12 +76,53 @@ export const useConversationStore = create(
           const list = state.conversationList
           const original = state.query(id)
           list[newId] = { ...original }
+          searchIndex.add(newId, list[newId])
           return { conversationList: { ...list } }
         })
       },
+      addFolder: (folder) => {
+        set((state) => ({ folders: [...state.folders, folder] }))
+      },
+      renameFolder: (id, name) => {
+        set((state) => ({ folders: state.folders.map((item) => (item.id === id ? { ...item, name } : item)) }))
+      },
+      removeFolder: (id) => {
+        const list = get().conversationList
+        // The conversations in the folder are moved back to the conversation list
+        for (const conversation of values(list)) {
+          if (conversation.folderId === id) delete conversation.folderId
+        }
+        set((state) => ({
+          conversationList: { ...list },
+          folders: state.folders.filter((item) => item.id !== id),
+        }))
+      },
+      toggleFolder: (id) => {
+        set((state) => ({
+          folders: state.folders.map((item) => (item.id === id ? { ...item, collapsed: !item.collapsed } : item)),
+        }))
+      },
+      moveToFolder: (ids, folderId) => {
+        const list = get().conversationList
+        for (const id of ids) {
+          if (list[id]) list[id] = { ...list[id], folderId, updatedAt: Date.now() }
+        }
+        set(() => ({ conversationList: { ...list } }))
+      },
+      setTags: (id, tags) => {
+        const list = get().conversationList
+        if (list[id]) list[id] = { ...list[id], tags, updatedAt: Date.now() }
+        set(() => ({ conversationList: { ...list } }))
+      },
       setCurrentId: (id) => {
         set(() => ({ currentId: id }))
       },
+      restore: (data) => {
+        if (data.conversationList) searchIndex.rebuild(data.conversationList)
+        set(() => ({ ...data }))
+      },
+      search: (query, filter) => searchIndex.search(query, filter),
+      getSearchModels: () => searchIndex.getModels(),
     }),
     {
       name: 'conversationStore',
@@ -67,6 +139,9 @@ export const useConversationStore = create(
         },
         removeItem: async (key: string) => await storage.removeItem(key),
       },
+      onRehydrateStorage: () => (state) => {
+        if (state) searchIndex.rebuild(state.conversationList)
+      },
     },
   ),
 )
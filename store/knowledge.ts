@@ -0,0 +1,68 @@
+import { create } from 'zustand'
+import { persist, type StorageValue } from 'zustand/middleware'
+import storage from '@/utils/Storage'
+import { customAlphabet } from 'nanoid'
+import { omitBy, isFunction } from 'lodash-es'
+
+type KnowledgeStore = {
+  knowledgeBases: KnowledgeBase[]
+  create: (name: string, embeddingModel: string) => KnowledgeBase
+  rename: (id: string, name: string) => void
+  remove: (id: string) => void
+  addFile: (id: string, file: KnowledgeFile) => void
+  removeFile: (id: string, fileId: string) => void
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+// Only the metadata is kept here, the parsed texts and the vectors of the files are stored separately
+export const useKnowledgeStore = create(
+  persist<KnowledgeStore>(
+    (set) => ({
+      knowledgeBases: [],
+      create: (name, embeddingModel) => {
+        const knowledgeBase: KnowledgeBase = { id: nanoid(), name, embeddingModel, files: [], createdAt: Date.now() }
+        set((state) => ({ knowledgeBases: [...state.knowledgeBases, knowledgeBase] }))
+        return knowledgeBase
+      },
+      rename: (id, name) => {
+        set((state) => ({
+          knowledgeBases: state.knowledgeBases.map((item) => (item.id === id ? { ...item, name } : item)),
+        }))
+      },
+      remove: (id) => {
+        set((state) => ({ knowledgeBases: state.knowledgeBases.filter((item) => item.id !== id) }))
+      },
+      addFile: (id, file) => {
+        set((state) => ({
+          knowledgeBases: state.knowledgeBases.map((item) =>
+            item.id === id ? { ...item, files: [...item.files, file] } : item,
+          ),
+        }))
+      },
+      removeFile: (id, fileId) => {
+        set((state) => ({
+          knowledgeBases: state.knowledgeBases.map((item) =>
+            item.id === id ? { ...item, files: item.files.filter((file) => file.id !== fileId) } : item,
+          ),
+        }))
+      },
+    }),
+    {
+      name: 'knowledgeStore',
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await storage.getItem<StorageValue<KnowledgeStore>>(key)
+        },
+        setItem: async (key: string, store: StorageValue<KnowledgeStore>) => {
+          return await storage.setItem(key, {
+            state: omitBy(store.state, (item) => isFunction(item)),
+            version: store.version,
+          })
+        },
+        removeItem: async (key: string) => await storage.removeItem(key),
+      },
+    },
+  ),
+)
@@ -0,0 +1,91 @@
+import { create } from 'zustand'
+import { persist, type StorageValue } from 'zustand/middleware'
+import storage from '@/utils/Storage'
+import { customAlphabet } from 'nanoid'
+import { omitBy, isFunction } from 'lodash-es'
+
+type MemoryStore = {
+  memories: UserMemory[]
+  // Facts extracted by the model, waiting for the confirmation of the user
+  candidates: UserMemory[]
+  // Identifiers of the assistants whose conversations never use the memories
+  disabledAssistants: string[]
+  // Number of messages of each conversation that have been scanned for facts
+  scanned: Record<string, number>
+  add: (content: string, conversationId?: string) => void
+  update: (id: string, memory: Partial<Omit<UserMemory, 'id'>>) => void
+  remove: (id: string) => void
+  setCandidates: (candidates: UserMemory[]) => void
+  accept: (id: string) => void
+  dismiss: (id: string) => void
+  toggleAssistant: (identifier: string, enabled: boolean) => void
+  setScanned: (conversationId: string, count: number) => void
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+export function createMemory(content: string, conversationId?: string): UserMemory {
+  return { id: nanoid(), content, enabled: true, createdAt: Date.now(), conversationId }
+}
+
+export const useMemoryStore = create(
+  persist<MemoryStore>(
+    (set, get) => ({
+      memories: [],
+      candidates: [],
+      disabledAssistants: [],
+      scanned: {},
+      add: (content, conversationId) => {
+        set((state) => ({ memories: [...state.memories, createMemory(content, conversationId)] }))
+      },
+      update: (id, memory) => {
+        set((state) => ({
+          memories: state.memories.map((item) => (item.id === id ? { ...item, ...memory } : item)),
+        }))
+      },
+      remove: (id) => {
+        set((state) => ({ memories: state.memories.filter((item) => item.id !== id) }))
+      },
+      setCandidates: (candidates) => {
+        set(() => ({ candidates }))
+      },
+      accept: (id) => {
+        const candidate = get().candidates.find((item) => item.id === id)
+        if (!candidate) return
+        set((state) => ({
+          memories: [...state.memories, candidate],
+          candidates: state.candidates.filter((item) => item.id !== id),
+        }))
+      },
+      dismiss: (id) => {
+        set((state) => ({ candidates: state.candidates.filter((item) => item.id !== id) }))
+      },
+      toggleAssistant: (identifier, enabled) => {
+        set((state) => ({
+          disabledAssistants: enabled
+            ? state.disabledAssistants.filter((item) => item !== identifier)
+            : [...state.disabledAssistants, identifier],
+        }))
+      },
+      setScanned: (conversationId, count) => {
+        set((state) => ({ scanned: { ...state.scanned, [conversationId]: count } }))
+      },
+    }),
+    {
+      name: 'memoryStore',
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await storage.getItem<StorageValue<MemoryStore>>(key)
+        },
+        setItem: async (key: string, store: StorageValue<MemoryStore>) => {
+          return await storage.setItem(key, {
+            state: omitBy(store.state, (item) => isFunction(item)),
+            version: store.version,
+          })
+        },
+        removeItem: async (key: string) => await storage.removeItem(key),
+      },
+    },
+  ),
+)
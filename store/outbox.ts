@@ -0,0 +1,54 @@
+import { create } from 'zustand'
+import { persist, type StorageValue } from 'zustand/middleware'
+import storage from '@/utils/Storage'
+import { omitBy, isFunction } from 'lodash-es'
+
+type OutboxStore = {
+  messages: OutboxMessage[]
+  add: (message: OutboxMessage) => void
+  update: (id: string, message: Partial<Omit<OutboxMessage, 'id'>>) => void
+  updateConversation: (conversationId: string, message: Partial<Omit<OutboxMessage, 'id'>>) => void
+  remove: (id: string) => void
+}
+
+export const useOutboxStore = create(
+  persist<OutboxStore>(
+    (set) => ({
+      messages: [],
+      add: (message) => {
+        set((state) => ({ messages: [...state.messages, message] }))
+      },
+      update: (id, message) => {
+        set((state) => ({
+          messages: state.messages.map((item) => (item.id === id ? { ...item, ...message } : item)),
+        }))
+      },
+      updateConversation: (conversationId, message) => {
+        set((state) => ({
+          messages: state.messages.map((item) =>
+            item.conversationId === conversationId ? { ...item, ...message } : item,
+          ),
+        }))
+      },
+      remove: (id) => {
+        set((state) => ({ messages: state.messages.filter((item) => item.id !== id) }))
+      },
+    }),
+    {
+      name: 'outboxStore',
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await storage.getItem<StorageValue<OutboxStore>>(key)
+        },
+        setItem: async (key: string, store: StorageValue<OutboxStore>) => {
+          return await storage.setItem(key, {
+            state: omitBy(store.state, (item) => isFunction(item)),
+            version: store.version,
+          })
+        },
+        removeItem: async (key: string) => await storage.removeItem(key),
+      },
+    },
+  ),
+)
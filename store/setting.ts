@@ -2,7 +2,7 @@ import { create } from 'zustand'
 import { persist, type StorageValue } from 'zustand/middleware'
 import storage from '@/utils/Storage'
 import { DefaultModel } from '@/constant/model'
-import { omitBy, isFunction } from 'lodash-es'
+import { omit, omitBy, isFunction } from 'lodash-es'
 
 type DefaultSetting = Omit<Setting, 'isProtected' | 'talkMode' | 'sidebarState'>
 
@@ -28,12 +28,18 @@ const defaultSetting: DefaultSetting = {
   ttsLang: '',
   ttsVoice: '',
   lang: '',
-  maxHistoryLength: 0,
+  contextBudget: 100,
   assistantIndexUrl: '',
   topP: 0.95,
   topK: 40,
   temperature: 1,
   maxOutputTokens: 8192,
+  thinkingBudget: -1,
+  includeThoughts: true,
+  autoContinueRounds: 0,
+  memoryStrategy: 'hybrid',
+  memoryWindow: 10,
+  userMemory: false,
   safety: 'none',
   autoStartRecord: false,
   autoStopRecord: false,
@@ -53,7 +59,12 @@ export const useSettingStore = create(
     }),
     {
       name: 'settingStore',
-      version: 1,
+      version: 2,
+      migrate: (persistedState, version) => {
+        // The message count limit is replaced by the token budget, which can not be derived from it
+        if (version < 2) return omit(persistedState as object, ['maxHistoryLength']) as SettingStore
+        return persistedState as SettingStore
+      },
       storage: {
         getItem: async (key: string) => {
           return await storage.getItem<StorageValue<SettingStore>>(key)
@@ -0,0 +1,65 @@
+import { create } from 'zustand'
+import { persist, type StorageValue } from 'zustand/middleware'
+import storage from '@/utils/Storage'
+import type { WebDAVOptions, S3Options } from '@/utils/SyncClient'
+import { omitBy, isFunction } from 'lodash-es'
+
+export type SyncProvider = 'none' | 'webdav' | 's3'
+
+export type SyncedState = {
+  conversations: Record<string, string>
+  stores: Record<string, string>
+  // The store states of the last sync, used to find out the items deleted on either side
+  states?: Record<string, Record<string, any>>
+}
+
+interface SyncSetting {
+  provider: SyncProvider
+  webdav: WebDAVOptions
+  s3: S3Options
+  passphrase: string
+  autoSync: boolean
+}
+
+interface SyncStore extends SyncSetting {
+  // The content hashes of the last successful sync, used to find out which side has changed
+  synced: SyncedState
+  lastSyncTime: number
+  update: (values: Partial<SyncSetting>) => void
+  setSynced: (synced: SyncedState, lastSyncTime: number) => void
+  reset: () => void
+}
+
+export const useSyncStore = create(
+  persist<SyncStore>(
+    (set) => ({
+      provider: 'none',
+      webdav: { url: '', username: '', password: '' },
+      s3: { endpoint: '', region: 'us-east-1', bucket: '', accessKeyId: '', secretAccessKey: '', prefix: '' },
+      passphrase: '',
+      autoSync: false,
+      synced: { conversations: {}, stores: {} },
+      lastSyncTime: 0,
+      update: (values) => set(() => ({ ...values })),
+      setSynced: (synced, lastSyncTime) => set(() => ({ synced, lastSyncTime })),
+      // Changing the remote storage or the passphrase makes the previous sync state meaningless
+      reset: () => set(() => ({ synced: { conversations: {}, stores: {} }, lastSyncTime: 0 })),
+    }),
+    {
+      name: 'syncStore',
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await storage.getItem<StorageValue<SyncStore>>(key)
+        },
+        setItem: async (key: string, store: StorageValue<SyncStore>) => {
+          return await storage.setItem(key, {
+            state: omitBy(store.state, (item) => isFunction(item)),
+            version: store.version,
+          })
+        },
+        removeItem: async (key: string) => await storage.removeItem(key),
+      },
+    },
+  ),
+)
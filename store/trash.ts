@@ -0,0 +1,57 @@
+import { create } from 'zustand'
+import { persist, type StorageValue } from 'zustand/middleware'
+import storage from '@/utils/Storage'
+import { omitBy, isFunction } from 'lodash-es'
+
+type TrashStore = {
+  items: TrashItem[]
+  add: (item: TrashItem) => void
+  remove: (ids: string[]) => void
+  clear: () => void
+  purgeExpired: () => void
+}
+
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const useTrashStore = create(
+  persist<TrashStore>(
+    (set, get) => ({
+      items: [],
+      add: (item) => {
+        set((state) => ({ items: [item, ...state.items] }))
+      },
+      remove: (ids) => {
+        set((state) => ({ items: state.items.filter((item) => !ids.includes(item.id)) }))
+      },
+      clear: () => {
+        set(() => ({ items: [] }))
+      },
+      purgeExpired: () => {
+        const expiredAt = Date.now() - TRASH_RETENTION_DAYS * DAY
+        const items = get().items.filter((item) => item.deletedAt > expiredAt)
+        if (items.length !== get().items.length) set(() => ({ items }))
+      },
+    }),
+    {
+      name: 'trashStore',
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await storage.getItem<StorageValue<TrashStore>>(key)
+        },
+        setItem: async (key: string, store: StorageValue<TrashStore>) => {
+          return await storage.setItem(key, {
+            state: omitBy(store.state, (item) => isFunction(item)),
+            version: store.version,
+          })
+        },
+        removeItem: async (key: string) => await storage.removeItem(key),
+      },
+      onRehydrateStorage: () => (state) => {
+        if (state) state.purgeExpired()
+      },
+    },
+  ),
+)
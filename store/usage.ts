@@ -0,0 +1,45 @@
+import { create } from 'zustand'
+import { persist, type StorageValue } from 'zustand/middleware'
+import storage from '@/utils/Storage'
+import { DefaultModelPrice } from '@/constant/model'
+import { omit, omitBy, isFunction } from 'lodash-es'
+
+type UsageStore = {
+  prices: Record<string, ModelPrice>
+  setPrice: (model: string, price: ModelPrice) => void
+  removePrice: (model: string) => void
+  reset: () => void
+}
+
+export const useUsageStore = create(
+  persist<UsageStore>(
+    (set) => ({
+      prices: DefaultModelPrice,
+      setPrice: (model, price) => {
+        set((state) => ({ prices: { ...state.prices, [model]: price } }))
+      },
+      removePrice: (model) => {
+        set((state) => ({ prices: omit(state.prices, [model]) }))
+      },
+      reset: () => {
+        set(() => ({ prices: DefaultModelPrice }))
+      },
+    }),
+    {
+      name: 'usageStore',
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await storage.getItem<StorageValue<UsageStore>>(key)
+        },
+        setItem: async (key: string, store: StorageValue<UsageStore>) => {
+          return await storage.setItem(key, {
+            state: omitBy(store.state, (item) => isFunction(item)),
+            version: store.version,
+          })
+        },
+        removeItem: async (key: string) => await storage.removeItem(key),
+      },
+    },
+  ),
+)
@@ -1,9 +1,20 @@
-import type { Content, GroundingMetadata } from '@xiangfa/generative-ai'
+import type { Content, GroundingMetadata, SafetyRating } from '@xiangfa/generative-ai'
 import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
 
+declare module '@xiangfa/generative-ai' {
+  interface TextPart {
+    // The thought summary of the thinking models
+    thought?: boolean
+  }
+}
+
 declare global {
   interface Message extends Content {
     id: string
+    // Timestamp in milliseconds
+    createdAt?: number
+    // The model that generated the answer
+    model?: string
     attachments?: FileInfor[]
     groundingMetadata?: GroundingMetadata & {
       groundingChunks: Array<{ web: { uri: string; title: string } }>
@@ -13,6 +24,46 @@ declare global {
         confidenceScores: number[]
       }>
     }
+    structuredOutput?: {
+      errors: string[]
+    }
+    // The answer stream was broken before it finished, the answer can be continued
+    interrupted?: boolean
+    // The finish reason of the last candidate, `MAX_TOKENS` means the answer was truncated
+    finishReason?: string
+    // The explanation of the finish reason or the block reason given by the api
+    finishMessage?: string
+    // The prompt was blocked before an answer was generated
+    blockReason?: string
+    safetyRatings?: SafetyRatingResult[]
+    usage?: MessageUsage
+    // How long the model thought before answering, in milliseconds
+    thinkingDuration?: number
+    // The knowledge base chunks that were sent with the question
+    knowledgeReferences?: KnowledgeReference[]
+  }
+
+  interface SafetyRatingResult extends SafetyRating {
+    blocked?: boolean
+  }
+
+  type MemoryStrategyName = 'slidingWindow' | 'rollingSummary' | 'summaryLastN' | 'hybrid'
+
+  interface MessageUsage {
+    promptTokens: number
+    candidatesTokens: number
+    cachedTokens: number
+    thoughtsTokens: number
+    totalTokens: number
+    // Only the tail of the api key is kept, so that the usage can be grouped by key without leaking it
+    apiKey?: string
+  }
+
+  interface ModelPrice {
+    // USD per million tokens
+    input: number
+    output: number
+    cached: number
   }
 
   interface Setting {
@@ -25,12 +76,22 @@ declare global {
     ttsLang: string
     ttsVoice: string
     talkMode: 'chat' | 'voice'
-    maxHistoryLength: number
+    contextBudget: number
     assistantIndexUrl: string
     topP: number
     topK: number
     temperature: number
     maxOutputTokens: number
+    // Token budget of the thinking models, -1 lets the model decide and 0 turns thinking off
+    thinkingBudget: number
+    includeThoughts: boolean
+    memoryStrategy: MemoryStrategyName
+    // Inject the long-term memories about the user into the system instruction
+    userMemory: boolean
+    // Number of the latest messages kept by the sliding window and the summary + last N strategies
+    memoryWindow: number
+    // How many times a truncated answer is continued automatically, 0 disables it
+    autoContinueRounds: number
     safety: 'none' | 'low' | 'middle' | 'high'
     autoStartRecord: boolean
     autoStopRecord: boolean
@@ -110,6 +171,20 @@ declare global {
     status: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED'
   }
 
+  interface OutboxMessage {
+    id: string
+    conversationId: string
+    content: string
+    attachments: FileInfor[]
+    // The names of the attachments that could not be kept without the network
+    droppedAttachments?: string[]
+    createdAt: number
+    // The last message of the conversation when the message was written
+    lastMessageId?: string
+    // A conflict means the conversation has changed since then, a ready message is sent without the check
+    status: 'pending' | 'conflict' | 'ready'
+  }
+
   interface GatewayPayload {
     baseUrl: string
     method: 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace'
@@ -134,6 +209,7 @@ declare global {
     maxTemperature: number
     topP: number
     topK: number
+    thinking?: boolean
   }
 
   interface FunctionResponse<T = unknown> {
@@ -192,11 +268,119 @@ declare global {
     content: string
   }
 
+  interface ConversationSetting {
+    model?: string
+    topP?: number
+    topK?: number
+    temperature?: number
+    maxOutputTokens?: number
+    safety?: Setting['safety']
+    memoryStrategy?: MemoryStrategyName
+    memoryWindow?: number
+    userMemory?: boolean
+    plugins?: string[]
+  }
+
+  interface MessageBranch {
+    current: number
+    list: Message[][]
+  }
+
+  interface StructuredOutput {
+    enabled: boolean
+    schema: string
+  }
+
+  interface ContextCache {
+    name: string
+    model: string
+    expireTime: string
+    systemInstruction: string
+    messageIds: string[]
+    // Hash of the cached messages, an edited message keeps its id
+    contentHash: string
+    tokenCount?: number
+  }
+
   interface Conversation {
     title: string
     messages: Message[]
     summary: Summary
+    branches?: Record<string, MessageBranch>
     systemInstruction: string
-    chatLayout: 'chat' | 'doc'
+    // Identifier of the assistant the conversation was started with
+    assistant?: string
+    chatLayout: 'chat' | 'doc' | 'compare'
+    compareModels?: string[]
+    setting?: ConversationSetting
+    structuredOutput?: StructuredOutput
+    cache?: ContextCache
+    knowledgeBaseIds?: string[]
+    folderId?: string
+    tags?: string[]
+    updatedAt?: number
+  }
+
+  interface KnowledgeFile {
+    id: string
+    name: string
+    mimeType: string
+    size: number
+    chunkCount: number
+    // The pdf pages without a text layer, such as the scanned pages, are not indexed
+    emptyPages?: number[]
+    createdAt: number
+  }
+
+  interface KnowledgeBase {
+    id: string
+    name: string
+    // The embedding model name, `local` uses the hashed term vectors computed in the browser
+    embeddingModel: string
+    files: KnowledgeFile[]
+    createdAt: number
+  }
+
+  interface KnowledgeChunk {
+    index: number
+    // Offsets of the chunk in the parsed text of the file
+    start: number
+    end: number
+    embedding: number[]
+  }
+
+  interface KnowledgeReference {
+    knowledgeBaseId: string
+    fileId: string
+    fileName: string
+    chunkIndex: number
+    text: string
+    score: number
+  }
+
+  interface UserMemory {
+    id: string
+    content: string
+    enabled: boolean
+    createdAt: number
+    // The conversation the memory was extracted from
+    conversationId?: string
+  }
+
+  interface ConversationFolder {
+    id: string
+    name: string
+    collapsed?: boolean
+  }
+
+  interface TrashItem {
+    id: string
+    type: 'conversation' | 'message'
+    conversationId: string
+    deletedAt: number
+    conversation?: Conversation
+    pinned?: boolean
+    message?: Message
+    index?: number
   }
 }
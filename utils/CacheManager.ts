@@ -0,0 +1,74 @@
+import type { CachedContent, Content } from '@xiangfa/generative-ai'
+import { getRandomKey } from '@/utils/common'
+
+export type CacheManagerOptions = {
+  apiKey?: string
+  baseUrl?: string
+  token?: string
+}
+
+export type CreateCacheParams = {
+  model: string
+  contents: Content[]
+  systemInstruction?: string
+  ttlSeconds: number
+}
+
+export type CachedContentResponse = CachedContent & {
+  usageMetadata?: { totalTokenCount: number }
+}
+
+class CacheManager {
+  options: CacheManagerOptions
+  baseUrl: string
+  apiKey: string
+  constructor(options: CacheManagerOptions) {
+    if (!options.token && !options.apiKey) {
+      throw new Error('Missing required parameters!')
+    }
+    this.options = options
+    // The cache is only visible to the project that created it, so always use the same key as the file uploads
+    this.apiKey = this.options.apiKey ? getRandomKey(this.options.apiKey, true) : (this.options.token as string)
+    this.baseUrl = this.options.apiKey
+      ? this.options.baseUrl || 'https://generativelanguage.googleapis.com'
+      : '/api/google'
+  }
+  private async request(path: string, init?: RequestInit, params: Record<string, string> = {}) {
+    const searchParams = new URLSearchParams({ ...params, key: this.apiKey })
+    const response = await fetch(`${this.baseUrl}/v1beta/${path}?${searchParams.toString()}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    }).catch((err) => {
+      throw new Error(err.message)
+    })
+    const result = await response.json()
+    if (result.error) {
+      throw new Error(result.error.message)
+    }
+    return result
+  }
+  async create({ model, contents, systemInstruction, ttlSeconds }: CreateCacheParams): Promise<CachedContentResponse> {
+    const body: Record<string, unknown> = {
+      model: `models/${model}`,
+      contents,
+      ttl: `${ttlSeconds}s`,
+    }
+    if (systemInstruction) body.systemInstruction = { parts: [{ text: systemInstruction }] }
+    return await this.request('cachedContents', { method: 'POST', body: JSON.stringify(body) })
+  }
+  async get(name: string): Promise<CachedContentResponse> {
+    return await this.request(name)
+  }
+  async update(name: string, ttlSeconds: number): Promise<CachedContentResponse> {
+    return await this.request(
+      name,
+      { method: 'PATCH', body: JSON.stringify({ ttl: `${ttlSeconds}s` }) },
+      { updateMask: 'ttl' },
+    )
+  }
+  async delete(name: string) {
+    return await this.request(name, { method: 'DELETE' })
+  }
+}
+
+export default CacheManager
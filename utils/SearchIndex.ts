@@ -0,0 +1,198 @@
+import { entries, values, keys, isEmpty, isUndefined, union, intersection } from 'lodash-es'
+
+export interface SearchFilter {
+  role?: 'user' | 'model'
+  model?: string
+  // Timestamps in milliseconds
+  from?: number
+  to?: number
+}
+
+export interface SearchDocument {
+  conversationId: string
+  // Title and system instruction documents have no message id
+  messageId?: string
+  role?: string
+  model?: string
+  createdAt?: number
+  text: string
+}
+
+export interface SearchResult extends Omit<SearchDocument, 'text'> {
+  snippet: string
+  // [start, end) ranges of the matched terms in the snippet
+  highlights: Array<[number, number]>
+}
+
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/
+const WORD_REGEX = /[\p{L}\p{N}_]+/gu
+const SNIPPET_BEFORE = 20
+const SNIPPET_LENGTH = 100
+
+/**
+ * Split the text into index terms.
+ * Latin words are kept as a whole, CJK text has no word boundaries, so it is split into bigrams.
+ * @param text text content
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+  for (const word of text.toLowerCase().match(WORD_REGEX) || []) {
+    let segment = ''
+    const flush = () => {
+      if (segment.length === 1) {
+        terms.push(segment)
+      } else {
+        for (let i = 0; i < segment.length - 1; i++) terms.push(segment.slice(i, i + 2))
+      }
+      segment = ''
+    }
+    let latin = ''
+    for (const char of word) {
+      if (CJK_REGEX.test(char)) {
+        if (latin) terms.push(latin)
+        latin = ''
+        segment += char
+      } else {
+        if (segment) flush()
+        latin += char
+      }
+    }
+    if (latin) terms.push(latin)
+    if (segment) flush()
+  }
+  return terms
+}
+
+function getMessageText(message: Message): string {
+  return message.parts
+    .map((part) => part.text || '')
+    .filter((text) => text !== '')
+    .join('\n')
+}
+
+function createSnippet(text: string, keywords: string[]): Pick<SearchResult, 'snippet' | 'highlights'> {
+  const lowerText = text.toLowerCase()
+  let position = -1
+  for (const keyword of keywords) {
+    const index = lowerText.indexOf(keyword)
+    if (index > -1 && (position === -1 || index < position)) position = index
+  }
+  const start = Math.max(0, position - SNIPPET_BEFORE)
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '')
+  const lowerSnippet = snippet.toLowerCase()
+  const highlights: Array<[number, number]> = []
+  for (const keyword of keywords) {
+    let index = lowerSnippet.indexOf(keyword)
+    while (index > -1 && keyword !== '') {
+      highlights.push([index, index + keyword.length])
+      index = lowerSnippet.indexOf(keyword, index + keyword.length)
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0])
+  return { snippet, highlights }
+}
+
+/**
+ * Local inverted index over the titles, system instructions and message texts of all conversations
+ */
+class SearchIndex {
+  terms: Record<string, Record<string, true>> = {}
+  documents: Record<string, SearchDocument> = {}
+  conversations: Record<string, string[]> = {}
+  private addDocument(key: string, document: SearchDocument) {
+    if (document.text.trim() === '') return
+    this.documents[key] = document
+    this.conversations[document.conversationId] = [...(this.conversations[document.conversationId] || []), key]
+    for (const term of tokenize(document.text)) {
+      if (!this.terms[term]) this.terms[term] = {}
+      this.terms[term][key] = true
+    }
+  }
+  add(id: string, conversation: Conversation) {
+    this.remove(id)
+    this.addDocument(`${id}:title`, { conversationId: id, text: conversation.title })
+    this.addDocument(`${id}:systemInstruction`, { conversationId: id, text: conversation.systemInstruction })
+    for (const message of conversation.messages) {
+      this.addDocument(`${id}:${message.id}`, {
+        conversationId: id,
+        messageId: message.id,
+        role: message.role,
+        model: message.model,
+        createdAt: message.createdAt,
+        text: getMessageText(message),
+      })
+    }
+  }
+  remove(id: string) {
+    for (const key of this.conversations[id] || []) {
+      const document = this.documents[key]
+      if (document) {
+        for (const term of tokenize(document.text)) {
+          const postings = this.terms[term]
+          if (postings) {
+            delete postings[key]
+            if (isEmpty(postings)) delete this.terms[term]
+          }
+        }
+      }
+      delete this.documents[key]
+    }
+    delete this.conversations[id]
+  }
+  rebuild(conversations: Record<string, Conversation>) {
+    this.terms = {}
+    this.documents = {}
+    this.conversations = {}
+    for (const [id, conversation] of entries(conversations)) {
+      this.add(id, conversation)
+    }
+  }
+  getModels(): string[] {
+    const models: string[] = []
+    for (const document of values(this.documents)) {
+      if (document.model && !models.includes(document.model)) models.push(document.model)
+    }
+    return models.sort()
+  }
+  private match(document: SearchDocument, filter: SearchFilter) {
+    const hasFilter = filter.role || filter.model || !isUndefined(filter.from) || !isUndefined(filter.to)
+    if (!document.messageId) return !hasFilter
+    if (filter.role && document.role !== filter.role) return false
+    if (filter.model && document.model !== filter.model) return false
+    if (!isUndefined(filter.from) && (!document.createdAt || document.createdAt < filter.from)) return false
+    if (!isUndefined(filter.to) && (!document.createdAt || document.createdAt > filter.to)) return false
+    return true
+  }
+  search(query: string, filter: SearchFilter = {}): SearchResult[] {
+    const queryTerms = tokenize(query)
+    if (queryTerms.length === 0) return []
+    let candidates: string[] | null = null
+    queryTerms.forEach((term, idx) => {
+      if (candidates && candidates.length === 0) return
+      let postings = keys(this.terms[term])
+      // The last word may still be typed, so it is matched as a prefix
+      if (idx === queryTerms.length - 1 && !CJK_REGEX.test(term)) {
+        for (const key of keys(this.terms)) {
+          if (key !== term && key.startsWith(term)) postings = union(postings, keys(this.terms[key]))
+        }
+      }
+      candidates = candidates ? intersection(candidates, postings) : postings
+    })
+    const keywords = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((keyword) => keyword !== '')
+    const results: SearchResult[] = []
+    for (const key of candidates || []) {
+      const document = this.documents[key]
+      if (!document || !this.match(document, filter)) continue
+      const { text, ...rest } = document
+      results.push({ ...rest, ...createSnippet(text, keywords) })
+    }
+    return results.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
+  }
+}
+
+export default SearchIndex
@@ -0,0 +1,159 @@
+import { sha256, hmacSha256, toHex, toBase64 } from '@/utils/crypto'
+
+export type WebDAVOptions = {
+  url: string
+  username?: string
+  password?: string
+}
+
+export type S3Options = {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  prefix?: string
+}
+
+export interface SyncClient {
+  // Create the directories required by the sync, the object storage does not need it
+  prepare: (dirs: string[]) => Promise<void>
+  get: (path: string) => Promise<ArrayBuffer | null>
+  put: (path: string, data: ArrayBuffer) => Promise<void>
+  remove: (path: string) => Promise<void>
+}
+
+function trimSlash(path: string) {
+  return path.replace(/^\/+|\/+$/g, '')
+}
+
+function encodePath(path: string) {
+  return path
+    .split('/')
+    .filter((item) => item !== '')
+    .map((item) =>
+      encodeURIComponent(item).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`),
+    )
+    .join('/')
+}
+
+async function checkResponse(response: Response) {
+  if (response.ok) return response
+  const message = await response.text().catch(() => '')
+  throw new Error(`${response.status} ${response.statusText || message}`.trim())
+}
+
+export class WebDAVClient implements SyncClient {
+  options: WebDAVOptions
+  baseUrl: string
+  constructor(options: WebDAVOptions) {
+    if (!options.url) {
+      throw new Error('Missing required parameters!')
+    }
+    this.options = options
+    this.baseUrl = options.url.replace(/\/+$/, '')
+  }
+  private async request(path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers)
+    const { username, password } = this.options
+    if (username) {
+      headers.set('Authorization', `Basic ${toBase64(new TextEncoder().encode(`${username}:${password || ''}`))}`)
+    }
+    const url = path ? `${this.baseUrl}/${encodePath(path)}` : this.baseUrl
+    return await fetch(url, { ...init, headers, cache: 'no-store' }).catch((err) => {
+      throw new Error(err.message)
+    })
+  }
+  async prepare(dirs: string[]) {
+    for (const dir of ['', ...dirs]) {
+      const response = await this.request(dir, { method: 'MKCOL' })
+      // 405 means the collection already exists
+      if (response.status !== 405) await checkResponse(response)
+    }
+  }
+  async get(path: string) {
+    const response = await this.request(path)
+    if (response.status === 404) return null
+    await checkResponse(response)
+    return await response.arrayBuffer()
+  }
+  async put(path: string, data: ArrayBuffer) {
+    const response = await this.request(path, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: data,
+    })
+    await checkResponse(response)
+  }
+  async remove(path: string) {
+    const response = await this.request(path, { method: 'DELETE' })
+    if (response.status !== 404) await checkResponse(response)
+  }
+}
+
+/**
+ * A minimal S3 client signed with AWS Signature Version 4, the path-style url is used
+ * so that it works with MinIO and the other S3-compatible storage
+ */
+export class S3Client implements SyncClient {
+  options: S3Options
+  baseUrl: string
+  prefix: string
+  constructor(options: S3Options) {
+    if (!options.endpoint || !options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+      throw new Error('Missing required parameters!')
+    }
+    this.options = options
+    this.baseUrl = `${options.endpoint.replace(/\/+$/, '')}/${encodePath(options.bucket)}`
+    this.prefix = options.prefix ? trimSlash(options.prefix) : ''
+  }
+  private async sign(method: string, url: URL, payloadHash: string) {
+    const { region, accessKeyId, secretAccessKey } = this.options
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const scope = `${dateStamp}/${region || 'us-east-1'}/s3/aws4_request`
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date'
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.slice(1),
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join('\n')
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256(canonicalRequest)].join('\n')
+    let signingKey = await hmacSha256(`AWS4${secretAccessKey}`, dateStamp)
+    for (const item of scope.split('/').slice(1)) {
+      signingKey = await hmacSha256(signingKey, item)
+    }
+    const signature = toHex(await hmacSha256(signingKey, stringToSign))
+    return {
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': payloadHash,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    }
+  }
+  private async request(method: string, path: string, body?: ArrayBuffer) {
+    const key = encodePath(this.prefix ? `${this.prefix}/${path}` : path)
+    const url = new URL(`${this.baseUrl}/${key}`)
+    const headers = await this.sign(method, url, await sha256(body || ''))
+    return await fetch(url, { method, headers, body, cache: 'no-store' }).catch((err) => {
+      throw new Error(err.message)
+    })
+  }
+  async prepare() {}
+  async get(path: string) {
+    const response = await this.request('GET', path)
+    if (response.status === 404) return null
+    await checkResponse(response)
+    return await response.arrayBuffer()
+  }
+  async put(path: string, data: ArrayBuffer) {
+    const response = await this.request('PUT', path, data)
+    await checkResponse(response)
+  }
+  async remove(path: string) {
+    const response = await this.request('DELETE', path)
+    if (response.status !== 404) await checkResponse(response)
+  }
+}
@@ -7,12 +7,18 @@ import type {
   Part,
   SafetySetting,
   GenerationConfig,
+  ResponseSchema,
 } from '@xiangfa/generative-ai'
 import { getVisionPrompt, getFunctionCallPrompt } from '@/utils/prompt'
-import { hasUploadFiles, getRandomKey } from '@/utils/common'
+import { hasUploadFiles, getRandomKey, isThoughtPart } from '@/utils/common'
 import { OldVisionModel, DefaultModel } from '@/constant/model'
 import { isUndefined } from 'lodash-es'
 
+export type ThinkingConfig = {
+  thinkingBudget?: number
+  includeThoughts?: boolean
+}
+
 export type RequestProps = {
   model?: string
   systemInstruction?: string
@@ -28,11 +34,16 @@ export type RequestProps = {
     maxOutputTokens: number
   }
   safety: string
+  responseSchema?: ResponseSchema
+  cachedContent?: string
+  thinkingConfig?: ThinkingConfig
+  signal?: AbortSignal
 }
 
 export type NewModelParams = ModelParams & {
   tools?: Array<Tool | { googleSearch: {} } | { codeExecution: {} }>
   safetySettings?: SafetySetting[] & Array<{ category: string; threshold: string }>
+  generationConfig?: GenerationConfig & { thinkingConfig?: ThinkingConfig }
 }
 
 export function getSafetySettings(level: string) {
@@ -81,13 +92,24 @@ export default async function chat({
   baseUrl,
   generationConfig,
   safety,
+  responseSchema,
+  cachedContent,
+  thinkingConfig,
+  signal,
 }: RequestProps) {
-  const genAI = new GoogleGenerativeAI(getRandomKey(apiKey, hasUploadFiles(messages)))
+  // The cache can only be read with the key that created it
+  const genAI = new GoogleGenerativeAI(getRandomKey(apiKey, hasUploadFiles(messages) || !!cachedContent))
   const modelParams: NewModelParams = {
     model,
     generationConfig,
     safetySettings: getSafetySettings(safety),
   }
+  if (cachedContent) {
+    // The system instruction is stored in the cache and the api rejects tools with it, the requests that need them skip the cache
+    modelParams.cachedContent = { name: cachedContent, model, contents: [] }
+    systemInstruction = undefined
+    tools = undefined
+  }
   if (systemInstruction) {
     if (!model.startsWith('gemini-1.0')) {
       modelParams.systemInstruction = systemInstruction
@@ -99,6 +121,15 @@ export default async function chat({
       messages = [...systemInstructionMessages, ...messages]
     }
   }
+  if (responseSchema) {
+    // Function calling and search grounding can not be used together with the JSON mode
+    tools = undefined
+    modelParams.generationConfig = {
+      ...generationConfig,
+      responseMimeType: 'application/json',
+      responseSchema,
+    }
+  }
   if (
     tools &&
     !OldVisionModel.includes(model) &&
@@ -117,7 +148,7 @@ export default async function chat({
     }
     if (toolConfig) modelParams.toolConfig = toolConfig
   }
-  if (canUseSearchAsTool(model)) {
+  if (canUseSearchAsTool(model) && !responseSchema && !cachedContent) {
     const officialPlugins = [{ googleSearch: {} }]
     if (!tools) {
       modelParams.tools = officialPlugins
@@ -141,6 +172,9 @@ export default async function chat({
   if (model.startsWith('gemini-2.0-flash-exp-image-generation') && modelParams.generationConfig) {
     modelParams.generationConfig.responseModalities = ['Text', 'Image']
   }
+  if (thinkingConfig && modelParams.generationConfig) {
+    modelParams.generationConfig = { ...modelParams.generationConfig, thinkingConfig }
+  }
   const geminiModel = genAI.getGenerativeModel(modelParams, { baseUrl })
   const message = messages.pop()
   if (isUndefined(message)) {
@@ -164,29 +198,34 @@ export default async function chat({
     if (imageMessages.length > 16) {
       throw new Error('Limited to 16 pictures')
     }
-    const { stream } = await geminiModel.generateContentStream([prompt, ...imageMessages])
+    const { stream } = await geminiModel.generateContentStream([prompt, ...imageMessages], { signal })
     return stream
   } else {
     const chat = geminiModel.startChat({
-      history: messages.map((item) => {
-        let parts: Part[] = []
-        if (item.role === 'model') {
-          let textPart: Part | null = null
-          for (const part of item.parts) {
-            if (part.text) {
-              textPart = part
-            } else {
-              parts.push(part)
+      history: messages
+        .map((item) => {
+          let parts: Part[] = []
+          if (item.role === 'model') {
+            let textPart: Part | null = null
+            for (const part of item.parts) {
+              // The thoughts are not sent back to the model
+              if (isThoughtPart(part)) continue
+              if (part.text) {
+                textPart = part
+              } else {
+                parts.push(part)
+              }
             }
+            if (textPart) parts = [textPart, ...parts]
+          } else {
+            parts = item.parts
           }
-          if (textPart) parts = [textPart, ...parts]
-        } else {
-          parts = item.parts
-        }
-        return { role: item.role, parts }
-      }),
+          return { role: item.role, parts }
+        })
+        // The blocked answers have no content to send back
+        .filter((item) => item.parts.length > 0),
     })
-    const { stream } = await chat.sendMessageStream(message.parts)
+    const { stream } = await chat.sendMessageStream(message.parts, { signal })
     return stream
   }
 }
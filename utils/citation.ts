@@ -0,0 +1,119 @@
+interface GroundingSupport {
+  segment: { startIndex?: number; endIndex?: number; text: string }
+  groundingChunkIndices: number[]
+  confidenceScores: number[]
+}
+
+export const CITATION_PREFIX = '#citation-'
+
+// The segment offsets of the api are byte offsets of the UTF-8 encoded text
+function byteOffsetToIndex(text: string, offset: number): number {
+  let bytes = 0
+  for (let i = 0; i < text.length; i++) {
+    if (bytes >= offset) return i
+    const code = text.charCodeAt(i)
+    if (code < 0x80) {
+      bytes += 1
+    } else if (code < 0x800) {
+      bytes += 2
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      bytes += 4
+      i++
+    } else {
+      bytes += 3
+    }
+  }
+  return text.length
+}
+
+function getByteLength(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+/**
+ * Find where the segment ends in the text, the segment text is preferred so that the edited messages keep their citations
+ * @returns -1 if the segment is no longer in the text
+ */
+function findSegmentEnd(text: string, segment: GroundingSupport['segment'], from: number): number {
+  if (segment.text) {
+    let index = text.indexOf(segment.text, from)
+    if (index === -1) index = text.indexOf(segment.text)
+    return index === -1 ? -1 : index + segment.text.length
+  }
+  if (segment.endIndex) return byteOffsetToIndex(text, segment.endIndex)
+  return -1
+}
+
+export function getCitationHref(chunkIndex: number, supportIndex: number): string {
+  return `${CITATION_PREFIX}${chunkIndex}-${supportIndex}`
+}
+
+export function parseCitationHref(href: string): { chunkIndex: number; supportIndex: number } | undefined {
+  if (!href.startsWith(CITATION_PREFIX)) return
+  const [chunkIndex, supportIndex] = href.slice(CITATION_PREFIX.length).split('-').map(Number)
+  if (isNaN(chunkIndex) || isNaN(supportIndex)) return
+  return { chunkIndex, supportIndex }
+}
+
+/**
+ * Insert the numbered footnote markers after each supported segment, the markers are markdown links to the sources
+ * @param text the markdown text of the answer
+ * @param supports grounding supports of the answer
+ */
+export function insertCitations(text: string, supports: GroundingSupport[] = []): string {
+  const markers: Record<number, string> = {}
+  let from = 0
+  supports.forEach((support, supportIndex) => {
+    const end = findSegmentEnd(text, support.segment, from)
+    if (end === -1) return
+    from = end
+    const links = support.groundingChunkIndices
+      .filter((chunkIndex) => !(markers[end] || '').includes(`](${CITATION_PREFIX}${chunkIndex}-`))
+      .map((chunkIndex) => `[${chunkIndex + 1}](${getCitationHref(chunkIndex, supportIndex)})`)
+    markers[end] = (markers[end] || '') + links.join('')
+  })
+  const positions = Object.keys(markers)
+    .map(Number)
+    .sort((a, b) => b - a)
+  let result = text
+  for (const position of positions) {
+    result = result.slice(0, position) + markers[position] + result.slice(position)
+  }
+  return result
+}
+
+/**
+ * Move the segment offsets to the edited text, the supports whose segment is gone keep their offsets
+ * but are no longer rendered, because the segment text is matched first
+ */
+export function remapGroundingSupports<T extends GroundingSupport>(text: string, supports: T[] = []): T[] {
+  let from = 0
+  return supports.map((support) => {
+    if (!support.segment.text) return support
+    const end = findSegmentEnd(text, support.segment, from)
+    if (end === -1) return support
+    from = end
+    const start = end - support.segment.text.length
+    return {
+      ...support,
+      segment: {
+        ...support.segment,
+        startIndex: getByteLength(text.slice(0, start)),
+        endIndex: getByteLength(text.slice(0, end)),
+      },
+    }
+  })
+}
+
+/**
+ * The source links of the search grounding are redirects, the title of the source is its domain
+ */
+export function getSourceDomain(source: { uri: string; title: string }): string {
+  try {
+    const { hostname } = new URL(source.uri)
+    if (hostname !== 'vertexaisearch.cloud.google.com') return hostname
+  } catch {
+    // The uri is not a valid url
+  }
+  return source.title
+}
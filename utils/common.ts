@@ -1,3 +1,4 @@
+import type { Part } from '@xiangfa/generative-ai'
 import LanguageDetector from 'i18next-browser-languagedetector'
 import locales from '@/constant/locales'
 
@@ -89,6 +90,10 @@ export function downloadFile(content: string, filename: string, fileType: string
   // Prepending a BOM sequence at the beginning of the text file to encoded as UTF-8.
   const BOM = new Uint8Array([0xef, 0xbb, 0xbf])
   const blob = new Blob([BOM, content], { type: fileType })
+  downloadBlob(blob, filename)
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
@@ -103,6 +108,10 @@ export function hasUploadFiles(messages: Message[] = []): boolean {
   return messages.some((message) => message.parts.some((part) => part.fileData))
 }
 
+export function isThoughtPart(part: Part): boolean {
+  return 'thought' in part && part.thought === true
+}
+
 export function getRandomKey(apiKey: string, useUploadKey = false): string {
   const apiKeyList = apiKey.split(',')
   if (apiKeyList[0].startsWith('AI') && apiKeyList[0].length === 39) {
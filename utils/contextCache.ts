@@ -0,0 +1,54 @@
+import { Md5 } from 'ts-md5'
+import { find, findLastIndex } from 'lodash-es'
+
+// Default lifetime of a cache, the api charges for the storage time
+export const CACHE_TTL_SECONDS = 3600
+
+/**
+ * The messages that can be put into the cache, from the beginning to the answer of the last message with attachments.
+ * The cache must end with a model turn so that the remaining history still starts with a user message.
+ * @param messages message list
+ */
+export function getCacheableMessages(messages: Message[]): Message[] {
+  const lastIndex = findLastIndex(messages, (message) => message.parts.some((part) => part.fileData))
+  if (lastIndex === -1) return []
+  let endIndex = lastIndex
+  while (endIndex + 1 < messages.length && messages[endIndex + 1].role !== 'user') {
+    endIndex++
+  }
+  if (messages[endIndex].role === 'user') return []
+  return messages.slice(0, endIndex + 1)
+}
+
+// The edited or regenerated messages keep their ids, so the cached content is compared by its hash
+export function getCacheContentHash(messages: Message[]): string {
+  return Md5.hashStr(JSON.stringify(messages.map((message) => ({ role: message.role, parts: message.parts }))))
+}
+
+export function isCacheExpired(cache: ContextCache): boolean {
+  return new Date(cache.expireTime).getTime() <= Date.now()
+}
+
+/**
+ * The cache can only be used when it is still alive and its content is unchanged
+ * @param cache cache of the conversation
+ * @param model current model
+ * @param messages current message list
+ * @param systemInstruction current system instruction
+ */
+export function isCacheAvailable(
+  cache: ContextCache | undefined,
+  model: string,
+  messages: Message[],
+  systemInstruction: string,
+): cache is ContextCache {
+  if (!cache || isCacheExpired(cache)) return false
+  if (cache.model !== model || cache.systemInstruction !== systemInstruction) return false
+  const cachedMessages: Message[] = []
+  for (const id of cache.messageIds) {
+    const message = find(messages, { id })
+    if (!message) return false
+    cachedMessages.push(message)
+  }
+  return getCacheContentHash(cachedMessages) === cache.contentHash
+}
@@ -0,0 +1,81 @@
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const PBKDF2_ITERATIONS = 250000
+const IV_LENGTH = 12
+
+export function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export function toBase64(buffer: ArrayBuffer | Uint8Array) {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+export function fromBase64(content: string) {
+  const binary = atob(content)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function randomBytes(length: number) {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+export async function sha256(data: string | ArrayBuffer) {
+  return toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data))
+}
+
+export async function hmacSha256(key: string | ArrayBuffer, data: string) {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    typeof key === 'string' ? encoder.encode(key) : key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  return await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data))
+}
+
+/**
+ * Derive an AES-GCM key from the passphrase, the derivation is slow on purpose,
+ * so the key should be derived once and reused
+ */
+export async function deriveKey(passphrase: string, salt: Uint8Array) {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * Encrypt the text, the random iv is prepended to the cipher text
+ */
+export async function encrypt(key: CryptoKey, content: string) {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(content))
+  const result = new Uint8Array(IV_LENGTH + cipher.byteLength)
+  result.set(iv)
+  result.set(new Uint8Array(cipher), IV_LENGTH)
+  return result.buffer
+}
+
+export async function decrypt(key: CryptoKey, data: ArrayBuffer) {
+  const iv = data.slice(0, IV_LENGTH)
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data.slice(IV_LENGTH))
+  return decoder.decode(plain)
+}
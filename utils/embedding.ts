@@ -0,0 +1,83 @@
+import { GoogleGenerativeAI, TaskType } from '@xiangfa/generative-ai'
+import { getRandomKey } from '@/utils/common'
+import { LocalEmbeddingModel } from '@/constant/model'
+
+export type RequestProps = {
+  apiKey: string
+  baseUrl?: string
+  model: string
+  texts: string[]
+  taskType: TaskType
+}
+
+// The api accepts at most 100 texts in a batch request
+const BATCH_SIZE = 100
+const LOCAL_DIMENSIONS = 512
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  const words = text.toLowerCase().match(/[a-z0-9]+|[^\sa-z0-9!-~]+/g) || []
+  for (const word of words) {
+    if (/[a-z0-9]/.test(word[0])) {
+      tokens.push(word)
+      continue
+    }
+    // The scripts without spaces are split into the characters and the pairs of them
+    for (let i = 0; i < word.length; i++) {
+      tokens.push(word[i])
+      if (i < word.length - 1) tokens.push(word.slice(i, i + 2))
+    }
+  }
+  return tokens
+}
+
+function hashToken(token: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * A normalized hashed bag of words, it only matches the same words but works without the api
+ */
+export function localEmbedding(text: string): number[] {
+  const vector: number[] = new Array(LOCAL_DIMENSIONS).fill(0)
+  for (const token of tokenize(text)) {
+    vector[hashToken(token) % LOCAL_DIMENSIONS] += 1
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+export default async function embedTexts(props: RequestProps): Promise<number[][]> {
+  const { apiKey, baseUrl, model, texts, taskType } = props
+  if (model === LocalEmbeddingModel) return texts.map((text) => localEmbedding(text))
+  const genAI = new GoogleGenerativeAI(getRandomKey(apiKey))
+  const embeddingModel = genAI.getGenerativeModel({ model }, { baseUrl })
+  const embeddings: number[][] = []
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const { embeddings: result } = await embeddingModel.batchEmbedContents({
+      requests: texts.slice(i, i + BATCH_SIZE).map((text) => ({
+        content: { role: 'user', parts: [{ text }] },
+        taskType,
+      })),
+    })
+    embeddings.push(...result.map((item) => item.values))
+  }
+  return embeddings
+}
@@ -0,0 +1,319 @@
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import Markdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeKatex from 'rehype-katex'
+import { ZipWriter, BlobWriter, TextReader, Data64URIReader } from '@zip.js/zip.js'
+import type { InlineDataPart } from '@xiangfa/generative-ai'
+import { downloadFile, downloadBlob, isThoughtPart } from '@/utils/common'
+import { find, last } from 'lodash-es'
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf' | 'zip'
+
+export interface ExportItem {
+  id: string
+  conversation: Conversation
+}
+
+// Returns the url of the inline data, or the url of the attachment that the file data points to
+type AssetResolver = (mimeType: string, dataUrl: string) => string
+
+export const EXPORT_VERSION = 1
+
+// The longest time the print iframe is kept, in milliseconds
+const PRINT_TIMEOUT = 60000
+
+const roleNames: Record<string, string> = {
+  user: 'User',
+  model: 'AI',
+  function: 'Plugin',
+}
+
+const assetExtensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'application/pdf': 'pdf',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'text/plain': 'txt',
+}
+
+const htmlStyle = `
+body{margin:0 auto;max-width:860px;padding:24px;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;line-height:1.6;color:#1e293b}
+h1.title{font-size:1.6em;border-bottom:1px solid #e2e8f0;padding-bottom:8px}
+.conversation+.conversation{page-break-before:always}
+.system{padding:8px 12px;border-left:4px solid #cbd5e1;color:#64748b;white-space:pre-wrap}
+.message{margin:16px 0;padding:12px 16px;border-radius:8px;background:#f8fafc;overflow-wrap:break-word}
+.message.user{background:#eff6ff}
+.role{font-size:.8em;font-weight:600;color:#64748b;text-transform:uppercase}
+.message img{max-width:100%}
+pre{overflow-x:auto;border-radius:6px;background:#fefefe;border:1px solid #e2e8f0}
+pre code.hljs{display:block;padding:12px}
+code{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:.9em}
+table{border-collapse:collapse}th,td{border:1px solid #e2e8f0;padding:4px 8px}
+figure.mermaid{text-align:center}
+.hljs{color:#545454}.hljs-comment,.hljs-quote{color:#696969}
+.hljs-variable,.hljs-template-variable,.hljs-tag,.hljs-name,.hljs-selector-id,.hljs-selector-class,.hljs-regexp,.hljs-deletion{color:#d91e18}
+.hljs-number,.hljs-built_in,.hljs-literal,.hljs-type,.hljs-params,.hljs-meta,.hljs-link,.hljs-attribute{color:#aa5d00}
+.hljs-string,.hljs-symbol,.hljs-bullet,.hljs-addition{color:#008000}
+.hljs-title,.hljs-section{color:#007faa}.hljs-keyword,.hljs-selector-tag{color:#7928a1}
+.hljs-emphasis{font-style:italic}.hljs-strong{font-weight:700}
+@media print{body{padding:0}.message{break-inside:avoid-page}}
+`
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function getFilename(title: string) {
+  return title.replace(/[\\/:*?"<>|]/g, '_').trim()
+}
+
+function getUniqueName(name: string, names: string[]) {
+  let uniqueName = name
+  for (let i = 1; names.includes(uniqueName); i++) uniqueName = `${name} (${i})`
+  names.push(uniqueName)
+  return uniqueName
+}
+
+function wrapJsonCode(content: unknown) {
+  return `\`\`\`json\n${JSON.stringify(content, null, 2)}\n\`\`\``
+}
+
+function getDataUrl(inlineData: InlineDataPart['inlineData']) {
+  return `data:${inlineData.mimeType};base64,${inlineData.data}`
+}
+
+function getMessageMarkdown(message: Message, resolveAsset?: AssetResolver) {
+  const contentList: string[] = []
+  const createLink = (mimeType: string, url: string) => {
+    return `${mimeType.startsWith('image/') ? '!' : ''}[${mimeType}](${url})`
+  }
+  message.parts.forEach((part) => {
+    if (part.fileData) {
+      const { mimeType, fileUri } = part.fileData
+      // Files uploaded to the Gemini File API expire, use the local copy of the attachment when it exists
+      const attachment = find(message.attachments, (item) => item.metadata?.uri === fileUri)
+      const dataUrl = attachment?.dataUrl || attachment?.preview
+      contentList.push(
+        dataUrl && resolveAsset ? createLink(mimeType, resolveAsset(mimeType, dataUrl)) : `[${mimeType}](${fileUri})`,
+      )
+    } else if (part.inlineData) {
+      const dataUrl = getDataUrl(part.inlineData)
+      contentList.push(
+        createLink(part.inlineData.mimeType, resolveAsset ? resolveAsset(part.inlineData.mimeType, dataUrl) : dataUrl),
+      )
+    } else if (part.functionCall) {
+      contentList.push(part.functionCall.name)
+      contentList.push(wrapJsonCode(part.functionCall.args))
+    } else if (part.functionResponse) {
+      contentList.push(part.functionResponse.name)
+      contentList.push(wrapJsonCode(part.functionResponse.response))
+    } else if (isThoughtPart(part)) {
+      // The thoughts are quoted so that they are not mistaken for the answer
+      contentList.push(`> **Thoughts**\n>\n${(part.text || '').replace(/^/gm, '> ')}`)
+    } else if (part.text) {
+      contentList.push(part.text)
+    }
+  })
+  if (message.groundingMetadata) {
+    const { groundingChunks = [] } = message.groundingMetadata
+    if (groundingChunks.length > 0) {
+      contentList.push(`---\n\n${groundingChunks.map((item) => `- [${item.web?.title}](${item.web?.uri})`).join('\n')}`)
+    }
+  }
+  return contentList.join('\n\n')
+}
+
+export function getMarkdownContent(conversation: Conversation, resolveAsset?: AssetResolver) {
+  const mdContentList: string[] = []
+  if (conversation.systemInstruction) {
+    mdContentList.push('> SystemInstruction')
+    mdContentList.push(conversation.systemInstruction)
+  }
+  conversation.messages.forEach((message) => {
+    if (roleNames[message.role]) mdContentList.push(`> ${roleNames[message.role]}`)
+    mdContentList.push(getMessageMarkdown(message, resolveAsset))
+  })
+  return mdContentList.join('\n\n')
+}
+
+export function getJSONContent(items: ExportItem[]) {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversations: items.map(({ id, conversation }) => ({ id, ...conversation })),
+    },
+    null,
+    2,
+  )
+}
+
+function renderMarkdown(content: string) {
+  return renderToStaticMarkup(
+    createElement(Markdown, {
+      remarkPlugins: [remarkGfm, remarkMath],
+      // MathML is rendered by the browser, so the exported file does not depend on the KaTeX stylesheet and fonts
+      rehypePlugins: [
+        [rehypeHighlight, { detect: true, ignoreMissing: true, plainText: ['mermaid'] }],
+        [rehypeKatex, { output: 'mathml' }],
+      ],
+      // The content is exported by the user, the data urls of the images need to be kept
+      urlTransform: (url: string) => url,
+      children: content,
+    }),
+  )
+}
+
+async function renderMermaid(doc: Document) {
+  const blocks = doc.querySelectorAll('code.language-mermaid')
+  if (blocks.length === 0) return
+  const { default: mermaid } = await import('mermaid')
+  mermaid.initialize({ startOnLoad: false })
+  for (let i = 0; i < blocks.length; i++) {
+    const pre = blocks[i].parentElement
+    try {
+      const { svg } = await mermaid.render(`mermaid-export-${i}`, blocks[i].textContent || '')
+      const figure = doc.createElement('figure')
+      figure.className = 'mermaid'
+      figure.innerHTML = svg
+      if (pre) pre.replaceWith(figure)
+    } catch (err) {
+      console.error('[Mermaid]: ', err instanceof Error ? err.message : err)
+    }
+  }
+}
+
+function getConversationHTML({ conversation }: ExportItem, defaultTitle: string) {
+  const sections: string[] = [`<h1 class="title">${escapeHtml(conversation.title || defaultTitle)}</h1>`]
+  if (conversation.systemInstruction) {
+    sections.push(`<div class="system">${escapeHtml(conversation.systemInstruction)}</div>`)
+  }
+  for (const message of conversation.messages) {
+    const role = message.role === 'model' && message.model ? message.model : roleNames[message.role] || message.role
+    sections.push(
+      `<section class="message ${message.role}"><div class="role">${escapeHtml(role)}</div>${renderMarkdown(getMessageMarkdown(message))}</section>`,
+    )
+  }
+  return `<article class="conversation">${sections.join('\n')}</article>`
+}
+
+/**
+ * Render the conversations into a single html file, the styles and images are inlined
+ * and the mermaid diagrams are converted to svg
+ */
+export async function getHTMLContent(items: ExportItem[], defaultTitle: string) {
+  const title = items.length === 1 ? items[0].conversation.title || defaultTitle : defaultTitle
+  const doc = document.implementation.createHTMLDocument(title)
+  const meta = doc.createElement('meta')
+  meta.setAttribute('charset', 'utf-8')
+  doc.head.prepend(meta)
+  const style = doc.createElement('style')
+  style.textContent = htmlStyle
+  doc.head.appendChild(style)
+  doc.body.innerHTML = items.map((item) => getConversationHTML(item, defaultTitle)).join('\n')
+  await renderMermaid(doc)
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`
+}
+
+/**
+ * Print the html through a hidden iframe, the browser print dialog is used to save it as a PDF
+ */
+function printHTML(html: string) {
+  return new Promise<void>((resolve) => {
+    const iframe = document.createElement('iframe')
+    iframe.style.position = 'fixed'
+    iframe.style.width = '0'
+    iframe.style.height = '0'
+    iframe.style.border = '0'
+    iframe.srcdoc = html
+    let timer: ReturnType<typeof setTimeout>
+    const cleanup = () => {
+      clearTimeout(timer)
+      window.removeEventListener('focus', cleanup)
+      if (iframe.parentNode) document.body.removeChild(iframe)
+      resolve()
+    }
+    iframe.addEventListener('load', () => {
+      const contentWindow = iframe.contentWindow
+      if (!contentWindow) return cleanup()
+      // Some browsers never fire `afterprint`, the page getting the focus back or a timeout also ends the print
+      contentWindow.addEventListener('afterprint', cleanup)
+      contentWindow.focus()
+      contentWindow.print()
+      window.addEventListener('focus', cleanup)
+      timer = setTimeout(cleanup, PRINT_TIMEOUT)
+    })
+    document.body.appendChild(iframe)
+  })
+}
+
+async function getZipContent(items: ExportItem[], defaultTitle: string) {
+  const zipWriter = new ZipWriter(new BlobWriter('application/zip'))
+  const folderNames: string[] = []
+  for (const item of items) {
+    const title = getFilename(item.conversation.title || defaultTitle)
+    // Each conversation has its own folder when more than one conversation is exported
+    const folder = items.length > 1 ? `${getUniqueName(title, folderNames)}/` : ''
+    const assets: Array<{ filename: string; dataUrl: string }> = []
+    const resolveAsset: AssetResolver = (mimeType, dataUrl) => {
+      const exists = find(assets, { dataUrl })
+      if (exists) return exists.filename
+      const extension = assetExtensions[mimeType] || last(mimeType.split('/')) || 'bin'
+      const filename = `attachments/${mimeType.startsWith('image/') ? 'image' : 'file'}-${assets.length + 1}.${extension}`
+      assets.push({ filename, dataUrl })
+      return filename
+    }
+    const mdContent = getMarkdownContent(item.conversation, resolveAsset)
+    await zipWriter.add(`${folder}${title}.md`, new TextReader(mdContent))
+    for (const asset of assets) {
+      await zipWriter.add(`${folder}${asset.filename}`, new Data64URIReader(asset.dataUrl))
+    }
+  }
+  return await zipWriter.close()
+}
+
+async function getMarkdownZipContent(items: ExportItem[], defaultTitle: string) {
+  const zipWriter = new ZipWriter(new BlobWriter('application/zip'))
+  const filenames: string[] = []
+  for (const item of items) {
+    const filename = getUniqueName(getFilename(item.conversation.title || defaultTitle), filenames)
+    await zipWriter.add(`${filename}.md`, new TextReader(getMarkdownContent(item.conversation)))
+  }
+  return await zipWriter.close()
+}
+
+/**
+ * Export one or more conversations
+ * @param items conversations to export
+ * @param format export format
+ * @param defaultTitle title of the untitled conversations
+ */
+export async function exportConversations(items: ExportItem[], format: ExportFormat, defaultTitle: string) {
+  if (items.length === 0) return
+  const filename =
+    items.length === 1 ? getFilename(items[0].conversation.title || defaultTitle) : `conversations-${Date.now()}`
+  if (format === 'markdown') {
+    if (items.length === 1) {
+      downloadFile(getMarkdownContent(items[0].conversation), `${filename}.md`, 'text/markdown')
+    } else {
+      downloadBlob(await getMarkdownZipContent(items, defaultTitle), `${filename}.zip`)
+    }
+  } else if (format === 'json') {
+    downloadFile(getJSONContent(items), `${filename}.json`, 'application/json')
+  } else if (format === 'html') {
+    downloadFile(await getHTMLContent(items, defaultTitle), `${filename}.html`, 'text/html')
+  } else if (format === 'pdf') {
+    await printHTML(await getHTMLContent(items, defaultTitle))
+  } else if (format === 'zip') {
+    downloadBlob(await getZipContent(items, defaultTitle), `${filename}.zip`)
+  }
+}
@@ -0,0 +1,38 @@
+import { GoogleGenerativeAI } from '@xiangfa/generative-ai'
+import { DefaultModel } from '@/constant/model'
+import { getRandomKey } from '@/utils/common'
+import { getMemoryExtractionPrompt } from '@/utils/prompt'
+import { isArray, isString } from 'lodash-es'
+
+export type RequestProps = {
+  apiKey: string
+  baseUrl?: string
+  messages: Message[]
+  memories: string[]
+}
+
+const systemInstruction = `
+You are an assistant who helps to remember the user. You need to find the durable facts about the user in the conversation, such as their name, occupation, location, preferences, goals and the tools they use.
+Only keep the facts the user has stated about themselves, ignore the temporary details of the current task, the content written by the AI and anything sensitive like passwords, keys, health or financial records.
+Each fact is a short sentence in the third person, written in the language of the conversation, e.g. "The user is a frontend developer".
+The content in the \`<memories></memories>\` tag is the facts that are already remembered, do not output them again or any fact with the same meaning.
+The content in the \`<conversation></conversation>\` tag is the conversation.
+Output a JSON array of strings, output an empty array if there is nothing new.
+`
+
+export default async function extractMemories(props: RequestProps): Promise<string[]> {
+  const { apiKey, baseUrl, messages, memories } = props
+  const genAI = new GoogleGenerativeAI(getRandomKey(apiKey))
+  const geminiModel = genAI.getGenerativeModel(
+    { model: DefaultModel, systemInstruction, generationConfig: { responseMimeType: 'application/json' } },
+    { baseUrl },
+  )
+  const { response } = await geminiModel.generateContent([getMemoryExtractionPrompt(messages, memories)])
+  try {
+    const facts = JSON.parse(response.text())
+    if (!isArray(facts)) return []
+    return facts.filter((item) => isString(item) && item.trim() !== '').map((item: string) => item.trim())
+  } catch {
+    return []
+  }
+}
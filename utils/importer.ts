@@ -0,0 +1,343 @@
+import { ZipReader, BlobReader, BlobWriter, TextWriter, type Entry } from '@zip.js/zip.js'
+import type { InlineDataPart } from '@xiangfa/generative-ai'
+import { readFileAsDataURL } from '@/utils/common'
+import { customAlphabet } from 'nanoid'
+import { isArray, isString, isPlainObject, isUndefined, omitBy, last } from 'lodash-es'
+
+export type ImportSource = 'json' | 'chatgpt' | 'claude' | 'aistudio' | 'markdown'
+
+export interface ImportedConversation {
+  // Unique within one import, used for the selection
+  key: string
+  source: ImportSource
+  title: string
+  createdAt?: number
+  conversation: Conversation
+}
+
+type AssetLoader = (id: string) => Promise<InlineDataPart['inlineData'] | undefined>
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+const assetMimeTypes: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+}
+
+function getExtension(filename: string) {
+  return (last(filename.split('.')) || '').toLowerCase()
+}
+
+function createConversation(title: string, messages: Message[], systemInstruction = ''): Conversation {
+  return {
+    title,
+    messages,
+    summary: { ids: [], content: '' },
+    systemInstruction,
+    chatLayout: 'doc',
+  }
+}
+
+/**
+ * Consecutive messages of the same role are merged, the Gemini API expects the roles to alternate
+ */
+function mergeMessages(messages: Message[]): Message[] {
+  const result: Message[] = []
+  for (const message of messages) {
+    const previous = last(result)
+    if (previous && previous.role === message.role && message.role !== 'function') {
+      const text = [getText(previous), getText(message)].filter((item) => item !== '').join('\n\n')
+      previous.parts = [
+        ...previous.parts.filter((part) => !part.text),
+        ...message.parts.filter((part) => !part.text),
+        { text },
+      ]
+      if (message.attachments) previous.attachments = [...(previous.attachments || []), ...message.attachments]
+    } else {
+      result.push(message)
+    }
+  }
+  return result.filter((message) => message.parts.length > 0)
+}
+
+function getText(message: Message) {
+  return message.parts
+    .map((part) => part.text || '')
+    .filter((text) => text !== '')
+    .join('\n\n')
+}
+
+function createTextAttachment(name: string, content: string): FileInfor {
+  return { id: nanoid(), name, mimeType: 'text/plain', size: content.length, status: 'ACTIVE' }
+}
+
+function parseChatGPT(data: any[], loadAsset: AssetLoader): Promise<ImportedConversation[]> {
+  return Promise.all(
+    data.map(async (item, idx) => {
+      // Only the current branch is imported, walk from the last node back to the root
+      const nodes: any[] = []
+      let nodeId: string | undefined = item.current_node
+      while (nodeId && item.mapping[nodeId]) {
+        nodes.unshift(item.mapping[nodeId])
+        nodeId = item.mapping[nodeId].parent
+      }
+      const messages: Message[] = []
+      for (const node of nodes) {
+        const { message } = node
+        if (!message || !message.content || message.metadata?.is_visually_hidden_from_conversation) continue
+        const role = message.author?.role
+        const { content_type: contentType, parts = [] } = message.content
+        if (!['user', 'assistant', 'tool'].includes(role)) continue
+        if (!['text', 'multimodal_text'].includes(contentType)) continue
+        const messageParts: Message['parts'] = []
+        const texts: string[] = []
+        for (const part of parts) {
+          if (isString(part)) {
+            if (part.trim() !== '') texts.push(part)
+          } else if (part?.content_type === 'image_asset_pointer') {
+            const inlineData = await loadAsset(String(part.asset_pointer).replace(/^[a-z-]+:\/\//, ''))
+            if (inlineData) messageParts.push({ inlineData })
+          }
+        }
+        // Tool messages are only kept for the generated images
+        if (role === 'tool' && messageParts.length === 0) continue
+        if (role !== 'tool' && texts.length > 0) messageParts.push({ text: texts.join('\n\n') })
+        if (messageParts.length === 0) continue
+        messages.push({
+          id: nanoid(),
+          role: role === 'user' ? 'user' : 'model',
+          parts: messageParts,
+          createdAt: message.create_time ? Math.round(message.create_time * 1000) : undefined,
+          model: message.metadata?.model_slug,
+        })
+      }
+      const title = item.title || ''
+      return {
+        key: `chatgpt-${item.conversation_id || item.id || idx}`,
+        source: 'chatgpt' as const,
+        title,
+        createdAt: item.create_time ? Math.round(item.create_time * 1000) : undefined,
+        conversation: createConversation(title, mergeMessages(messages)),
+      }
+    }),
+  )
+}
+
+function parseClaude(data: any[]): ImportedConversation[] {
+  return data.map((item, idx) => {
+    const messages: Message[] = []
+    for (const chatMessage of item.chat_messages || []) {
+      const content: any[] = isArray(chatMessage.content) ? chatMessage.content : []
+      const text =
+        content.length > 0
+          ? content
+              .filter((part) => part.type === 'text' && part.text)
+              .map((part) => part.text)
+              .join('\n\n')
+          : chatMessage.text || ''
+      const messageParts: Message['parts'] = []
+      const attachments: FileInfor[] = []
+      // Only the extracted text of the attachments is included in the export
+      for (const attachment of chatMessage.attachments || []) {
+        if (!attachment.extracted_content) continue
+        messageParts.push({ text: `${attachment.file_name}\n\n${attachment.extracted_content}` })
+        attachments.push(createTextAttachment(attachment.file_name, attachment.extracted_content))
+      }
+      if (text.trim() !== '') messageParts.push({ text })
+      if (messageParts.length === 0) continue
+      const message: Message = {
+        id: nanoid(),
+        role: chatMessage.sender === 'human' ? 'user' : 'model',
+        parts: messageParts,
+        createdAt: chatMessage.created_at ? new Date(chatMessage.created_at).getTime() : undefined,
+      }
+      if (attachments.length > 0) message.attachments = attachments
+      messages.push(message)
+    }
+    const title = item.name || ''
+    return {
+      key: `claude-${item.uuid || idx}`,
+      source: 'claude' as const,
+      title,
+      createdAt: item.created_at ? new Date(item.created_at).getTime() : undefined,
+      conversation: createConversation(title, mergeMessages(messages)),
+    }
+  })
+}
+
+function parseAIStudio(data: any, filename: string): ImportedConversation {
+  const messages: Message[] = []
+  for (const chunk of data.chunkedPrompt?.chunks || []) {
+    if (chunk.isThought) continue
+    const messageParts: Message['parts'] = []
+    if (chunk.inlineImage) messageParts.push({ inlineData: chunk.inlineImage })
+    if (chunk.inlineFile) messageParts.push({ inlineData: chunk.inlineFile })
+    if (chunk.text) messageParts.push({ text: chunk.text })
+    if (messageParts.length === 0) continue
+    messages.push({ id: nanoid(), role: chunk.role === 'user' ? 'user' : 'model', parts: messageParts })
+  }
+  const { systemInstruction = {}, runSettings = {} } = data
+  const systemText =
+    systemInstruction.text ||
+    (systemInstruction.parts || [])
+      .map((part: any) => part.text || '')
+      .filter((text: string) => text !== '')
+      .join('\n')
+  const title = filename.replace(/\.json$/i, '')
+  const conversation = createConversation(title, mergeMessages(messages), systemText)
+  const setting: ConversationSetting = omitBy(
+    {
+      model: isString(runSettings.model) ? runSettings.model.replace(/^models\//, '') : undefined,
+      temperature: runSettings.temperature,
+      topP: runSettings.topP,
+      topK: runSettings.topK,
+      maxOutputTokens: runSettings.maxOutputTokens,
+    },
+    isUndefined,
+  )
+  if (Object.keys(setting).length > 0) conversation.setting = setting
+  return { key: `aistudio-${filename}`, source: 'aistudio', title, conversation }
+}
+
+const MARKDOWN_ROLES: Record<string, string> = {
+  '> SystemInstruction': 'system',
+  '> User': 'user',
+  '> AI': 'model',
+  '> Plugin': 'function',
+}
+
+function parseMarkdownPart(paragraph: string): Message['parts'][number] {
+  const match = paragraph.match(/^!?\[([\w.+-]+\/[\w.+-]+)\]\((.+)\)$/)
+  if (match) {
+    const [, mimeType, url] = match
+    if (url.startsWith('data:')) {
+      return { inlineData: { mimeType, data: url.split(';base64,')[1] || '' } }
+    }
+    return { fileData: { mimeType, fileUri: url } }
+  }
+  return { text: paragraph }
+}
+
+/**
+ * Parse the markdown exported by this app, the sections are separated by role quote lines
+ */
+function parseMarkdown(content: string, filename: string): ImportedConversation {
+  const sections: Array<{ role: string; paragraphs: string[] }> = []
+  for (const paragraph of content.replace(/^\uFEFF/, '').split('\n\n')) {
+    const role = MARKDOWN_ROLES[paragraph.trim()]
+    if (role) {
+      sections.push({ role, paragraphs: [] })
+    } else if (sections.length > 0) {
+      last(sections)!.paragraphs.push(paragraph)
+    }
+  }
+  let systemInstruction = ''
+  const messages: Message[] = []
+  sections.forEach((section, idx) => {
+    if (section.role === 'system') {
+      systemInstruction = section.paragraphs.join('\n\n')
+      return
+    }
+    const parts: Message['parts'] = []
+    const texts: string[] = []
+    const hasFunction = section.role === 'function' || sections[idx + 1]?.role === 'function'
+    for (let i = 0; i < section.paragraphs.length; i++) {
+      const paragraph = section.paragraphs[i]
+      const jsonMatch = section.paragraphs[i + 1]?.match(/^```json\n([\s\S]*)\n```$/)
+      // Function calls and responses are written as the function name followed by a json code block
+      if (hasFunction && jsonMatch && /^[\w-]+$/.test(paragraph)) {
+        try {
+          const args = JSON.parse(jsonMatch[1])
+          parts.push(
+            section.role === 'function'
+              ? { functionResponse: { name: paragraph, response: args } }
+              : { functionCall: { name: paragraph, args } },
+          )
+          i++
+          continue
+        } catch {}
+      }
+      const part = parseMarkdownPart(paragraph)
+      if (part.text) {
+        texts.push(part.text)
+      } else {
+        parts.push(part)
+      }
+    }
+    if (texts.length > 0) parts.push({ text: texts.join('\n\n') })
+    if (parts.length > 0) messages.push({ id: nanoid(), role: section.role, parts })
+  })
+  if (messages.length === 0 && systemInstruction === '') throw new Error('Unsupported markdown file')
+  const title = filename.replace(/\.(md|markdown)$/i, '')
+  return {
+    key: `markdown-${filename}`,
+    source: 'markdown',
+    title,
+    conversation: createConversation(title, messages, systemInstruction),
+  }
+}
+
+function parseJSON(data: any, filename: string, loadAsset: AssetLoader) {
+  // The lossless json export of this app
+  if (isPlainObject(data) && data.version && isArray(data.conversations)) {
+    return Promise.resolve(
+      data.conversations.map(({ id, ...conversation }: Conversation & { id: string }) => ({
+        key: `json-${id}`,
+        source: 'json' as const,
+        title: conversation.title,
+        createdAt: conversation.messages[0]?.createdAt,
+        conversation,
+      })),
+    )
+  }
+  if (isArray(data) && data.length > 0) {
+    if (data[0].mapping) return parseChatGPT(data, loadAsset)
+    if (data[0].chat_messages) return Promise.resolve(parseClaude(data))
+  } else if (isPlainObject(data) && data.chunkedPrompt) {
+    return Promise.resolve([parseAIStudio(data, filename)])
+  }
+  throw new Error('Unsupported file format')
+}
+
+async function parseZip(file: File) {
+  const zipReader = new ZipReader(new BlobReader(file))
+  try {
+    const entries = await zipReader.getEntries()
+    const conversationsEntry = entries.find((entry) => last(entry.filename.split('/')) === 'conversations.json')
+    if (!conversationsEntry || !conversationsEntry.getData) throw new Error('Missing conversations.json')
+    const data = JSON.parse(await conversationsEntry.getData(new TextWriter()))
+    // ChatGPT stores the images as `{file id}-{file name}` in the archive
+    const loadAsset: AssetLoader = async (id) => {
+      const entry = entries.find((entry: Entry) => !entry.directory && last(entry.filename.split('/'))!.startsWith(id))
+      const mimeType = entry ? assetMimeTypes[getExtension(entry.filename)] : undefined
+      if (!entry || !entry.getData || !mimeType) return
+      const blob = await entry.getData(new BlobWriter(mimeType))
+      const dataUrl = await readFileAsDataURL(new File([blob], entry.filename, { type: mimeType }))
+      return { mimeType, data: dataUrl.split(';base64,')[1] }
+    }
+    return await parseJSON(data, file.name, loadAsset)
+  } finally {
+    await zipReader.close()
+  }
+}
+
+/**
+ * Read the conversations from a ChatGPT or Claude export, an AI Studio prompt file or a markdown file exported by this app
+ * @param file import file
+ */
+export async function parseImportFile(file: File): Promise<ImportedConversation[]> {
+  const extension = getExtension(file.name)
+  if (extension === 'zip') {
+    return parseZip(file)
+  } else if (['md', 'markdown'].includes(extension)) {
+    return [parseMarkdown(await file.text(), file.name)]
+  }
+  // AI Studio prompt files saved in Google Drive have no extension
+  const data = JSON.parse(await file.text())
+  return parseJSON(data, file.name, async () => undefined)
+}
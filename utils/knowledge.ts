@@ -0,0 +1,229 @@
+import { TaskType } from '@xiangfa/generative-ai'
+import storage from '@/utils/Storage'
+import { useSettingStore } from '@/store/setting'
+import { useKnowledgeStore } from '@/store/knowledge'
+import embedTexts, { cosineSimilarity } from '@/utils/embedding'
+import { isOfficeFile } from '@/utils/common'
+import { encodeToken } from '@/utils/signature'
+import { GEMINI_API_BASE_URL } from '@/constant/urls'
+import { customAlphabet } from 'nanoid'
+
+const CHUNK_SIZE = 1000
+const CHUNK_OVERLAP = 200
+// Number of the chunks sent with each question
+const TOP_K = 5
+
+export const knowledgeFileTypes = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.oasis.opendocument.text',
+  'application/vnd.oasis.opendocument.presentation',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/json',
+  'text/*',
+  '.md',
+]
+
+interface ParsedFile {
+  text: string
+  emptyPages?: number[]
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+function getRequestOptions() {
+  const { apiKey, apiProxy, password } = useSettingStore.getState()
+  if (apiKey !== '') return { apiKey, baseUrl: apiProxy || GEMINI_API_BASE_URL }
+  return { apiKey: encodeToken(password), baseUrl: '/api/google' }
+}
+
+// The parsed text and the vectors of a file are stored apart from the knowledge store, they are only loaded when used
+function getTextKey(fileId: string) {
+  return `knowledge:${fileId}:text`
+}
+
+function getChunksKey(fileId: string) {
+  return `knowledge:${fileId}:chunks`
+}
+
+export function getKnowledgeStorageKeys(knowledgeBases: KnowledgeBase[]) {
+  const keys: string[] = []
+  knowledgeBases.forEach((knowledgeBase) => {
+    knowledgeBase.files.forEach((file) => keys.push(getTextKey(file.id), getChunksKey(file.id)))
+  })
+  return keys
+}
+
+/**
+ * Split the text into overlapping chunks, the chunks are broken at the paragraphs or the sentences when possible
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP) {
+  const ranges: Array<{ start: number; end: number }> = []
+  let start = 0
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length)
+    if (end < text.length) {
+      const paragraph = text.lastIndexOf('\n\n', end)
+      const sentence = Math.max(text.lastIndexOf('\n', end), text.lastIndexOf('. ', end), text.lastIndexOf('。', end))
+      if (paragraph > start + size / 2) {
+        end = paragraph
+      } else if (sentence > start + size / 2) {
+        end = sentence + 1
+      }
+    }
+    if (text.slice(start, end).trim() !== '') ranges.push({ start, end })
+    if (end >= text.length) break
+    start = Math.max(end - overlap, start + 1)
+  }
+  return ranges
+}
+
+/**
+ * Read the text layer of the pdf, the pages without text such as the scanned pages are reported
+ */
+async function extractPdfText(file: File): Promise<ParsedFile> {
+  const { getDocument, GlobalWorkerOptions } = await import('pdfjs-dist')
+  // The worker is bundled as a worker entry, the minifier of next fails on the worker file emitted as an asset
+  if (!GlobalWorkerOptions.workerPort) {
+    GlobalWorkerOptions.workerPort = new Worker(new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url), {
+      type: 'module',
+    })
+  }
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise
+  const pages: string[] = []
+  const emptyPages: number[] = []
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const { items } = await page.getTextContent()
+      const text = items.map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join('')
+      if (text.trim() === '') {
+        emptyPages.push(pageNumber)
+      } else {
+        pages.push(text)
+      }
+    }
+  } finally {
+    await pdf.destroy()
+  }
+  if (pages.length === 0) {
+    throw new Error(`No text was found in ${file.name}, the scanned documents need to be converted to text first`)
+  }
+  return { text: pages.join('\n\n'), emptyPages }
+}
+
+export async function parseKnowledgeFile(file: File): Promise<ParsedFile> {
+  if (file.type === 'application/pdf') return await extractPdfText(file)
+  if (isOfficeFile(file.type)) {
+    const { parseOffice } = await import('@/utils/officeParser')
+    const result = await parseOffice(file, { type: 'text' })
+    if (result instanceof File) return { text: await result.text() }
+    return { text: result || '' }
+  }
+  return { text: await file.text() }
+}
+
+/**
+ * Parse, chunk and embed the file, then add it to the knowledge base
+ */
+export async function addKnowledgeFile(knowledgeBase: KnowledgeBase, file: File): Promise<KnowledgeFile> {
+  const { text, emptyPages = [] } = await parseKnowledgeFile(file)
+  const ranges = chunkText(text)
+  if (ranges.length === 0) throw new Error(`No text was found in ${file.name}`)
+  const embeddings = await embedTexts({
+    ...getRequestOptions(),
+    model: knowledgeBase.embeddingModel,
+    texts: ranges.map((range) => text.slice(range.start, range.end)),
+    taskType: TaskType.RETRIEVAL_DOCUMENT,
+  })
+  const chunks: KnowledgeChunk[] = ranges.map((range, index) => ({ index, ...range, embedding: embeddings[index] }))
+  const knowledgeFile: KnowledgeFile = {
+    id: nanoid(),
+    name: file.name,
+    mimeType: file.type,
+    size: file.size,
+    chunkCount: chunks.length,
+    createdAt: Date.now(),
+  }
+  if (emptyPages.length > 0) knowledgeFile.emptyPages = emptyPages
+  await storage.setItem(getTextKey(knowledgeFile.id), text)
+  await storage.setItem(getChunksKey(knowledgeFile.id), chunks)
+  useKnowledgeStore.getState().addFile(knowledgeBase.id, knowledgeFile)
+  return knowledgeFile
+}
+
+export async function removeKnowledgeFile(knowledgeBaseId: string, fileId: string) {
+  await storage.removeItem(getTextKey(fileId))
+  await storage.removeItem(getChunksKey(fileId))
+  useKnowledgeStore.getState().removeFile(knowledgeBaseId, fileId)
+}
+
+export async function removeKnowledgeBase(knowledgeBase: KnowledgeBase) {
+  for (const file of knowledgeBase.files) {
+    await removeKnowledgeFile(knowledgeBase.id, file.id)
+  }
+  useKnowledgeStore.getState().remove(knowledgeBase.id)
+}
+
+export async function getKnowledgeText(fileId: string): Promise<string> {
+  return (await storage.getItem<string>(getTextKey(fileId))) || ''
+}
+
+/**
+ * Find the chunks most similar to the query, each knowledge base is searched with its own embedding model
+ * @param knowledgeBaseIds the knowledge bases attached to the conversation
+ * @param query the question of the user
+ */
+export async function retrieveKnowledge(
+  knowledgeBaseIds: string[],
+  query: string,
+  topK = TOP_K,
+): Promise<KnowledgeReference[]> {
+  const { knowledgeBases } = useKnowledgeStore.getState()
+  const queryEmbeddings: Record<string, number[]> = {}
+  const matches: Array<{ knowledgeBaseId: string; file: KnowledgeFile; chunk: KnowledgeChunk; score: number }> = []
+  for (const knowledgeBase of knowledgeBases) {
+    if (!knowledgeBaseIds.includes(knowledgeBase.id) || knowledgeBase.files.length === 0) continue
+    const { embeddingModel } = knowledgeBase
+    if (!queryEmbeddings[embeddingModel]) {
+      const [embedding] = await embedTexts({
+        ...getRequestOptions(),
+        model: embeddingModel,
+        texts: [query],
+        taskType: TaskType.RETRIEVAL_QUERY,
+      })
+      queryEmbeddings[embeddingModel] = embedding
+    }
+    for (const file of knowledgeBase.files) {
+      const chunks = (await storage.getItem<KnowledgeChunk[]>(getChunksKey(file.id))) || []
+      for (const chunk of chunks) {
+        const score = cosineSimilarity(queryEmbeddings[embeddingModel], chunk.embedding)
+        matches.push({ knowledgeBaseId: knowledgeBase.id, file, chunk, score })
+      }
+    }
+  }
+  const references: KnowledgeReference[] = []
+  const texts: Record<string, string> = {}
+  for (const { knowledgeBaseId, file, chunk, score } of matches.sort((a, b) => b.score - a.score).slice(0, topK)) {
+    if (!texts[file.id]) texts[file.id] = await getKnowledgeText(file.id)
+    references.push({
+      knowledgeBaseId,
+      fileId: file.id,
+      fileName: file.name,
+      chunkIndex: chunk.index,
+      text: texts[file.id].slice(chunk.start, chunk.end),
+      score,
+    })
+  }
+  return references
+}
+
+/**
+ * The offsets of a chunk, used to highlight it in the source file
+ */
+export async function getKnowledgeChunk(fileId: string, index: number): Promise<KnowledgeChunk | undefined> {
+  const chunks = (await storage.getItem<KnowledgeChunk[]>(getChunksKey(fileId))) || []
+  return chunks.find((chunk) => chunk.index === index)
+}
@@ -0,0 +1,79 @@
+import { getSummaryPrompt } from '@/utils/prompt'
+import { estimateMessagesTokens, trimMessages, truncateText } from '@/utils/tokenizer'
+
+export interface MemoryContext {
+  summary: Summary
+  // Max tokens of the history
+  tokenBudget: number
+  // Number of the latest messages kept as they are
+  windowSize: number
+}
+
+export interface MemoryStrategy {
+  /**
+   * Build the history that is sent to the model
+   * @param messages all messages of the conversation
+   */
+  buildHistory: (messages: Message[], context: MemoryContext) => Message[]
+  /**
+   * Find the messages that should be folded into the summary after an answer
+   * @param messages all messages of the conversation
+   */
+  getMessagesToSummarize: (messages: Message[], context: MemoryContext) => Message[]
+}
+
+export const memoryStrategyNames: MemoryStrategyName[] = ['hybrid', 'summaryLastN', 'rollingSummary', 'slidingWindow']
+
+function getUnsummarizedMessages(messages: Message[], summary: Summary) {
+  return messages.filter((item) => !summary.ids.includes(item.id))
+}
+
+// The summary takes the place of the summarized messages, and at most half of the budget
+function buildSummaryHistory(messages: Message[], { summary, tokenBudget }: MemoryContext) {
+  const newMessages = getUnsummarizedMessages(messages, summary)
+  if (summary.content === '') return trimMessages(newMessages, tokenBudget)
+  const summaryPrompt = getSummaryPrompt(truncateText(summary.content, tokenBudget / 2))
+  return [...summaryPrompt, ...trimMessages(newMessages, tokenBudget - estimateMessagesTokens(summaryPrompt))]
+}
+
+const slidingWindow: MemoryStrategy = {
+  // The window is moved to the next user turn by the trimming
+  buildHistory: (messages, { tokenBudget, windowSize }) => trimMessages(messages.slice(-windowSize), tokenBudget),
+  getMessagesToSummarize: () => [],
+}
+
+const rollingSummary: MemoryStrategy = {
+  buildHistory: buildSummaryHistory,
+  // Every answer is folded into the summary, only the next question is sent as it is
+  getMessagesToSummarize: (messages, { summary }) => getUnsummarizedMessages(messages, summary),
+}
+
+const summaryLastN: MemoryStrategy = {
+  buildHistory: buildSummaryHistory,
+  getMessagesToSummarize: (messages, { summary, windowSize }) => {
+    const newMessages = getUnsummarizedMessages(messages, summary)
+    return newMessages.slice(0, Math.max(newMessages.length - windowSize, 0))
+  },
+}
+
+const hybrid: MemoryStrategy = {
+  buildHistory: buildSummaryHistory,
+  // Summarize the earlier messages once the budget is exceeded and keep the latest ones within half of the budget
+  getMessagesToSummarize: (messages, { summary, tokenBudget }) => {
+    const newMessages = getUnsummarizedMessages(messages, summary)
+    if (estimateMessagesTokens(newMessages) <= tokenBudget) return []
+    const keepIds = trimMessages(newMessages, tokenBudget / 2).map((item) => item.id)
+    return newMessages.filter((item) => !keepIds.includes(item.id))
+  },
+}
+
+const memoryStrategies: Record<MemoryStrategyName, MemoryStrategy> = {
+  slidingWindow,
+  rollingSummary,
+  summaryLastN,
+  hybrid,
+}
+
+export function getMemoryStrategy(name: MemoryStrategyName = 'hybrid'): MemoryStrategy {
+  return memoryStrategies[name] || hybrid
+}
@@ -16,3 +16,13 @@ export async function fetchModels(options: Options) {
     return response.json()
   }
 }
+
+/**
+ * Only the models that report `thinking` in their metadata accept the thinking config,
+ * the experimental thinking models neither accept it nor flag their thoughts
+ * @param model model name
+ * @param models model list with metadata
+ */
+export function supportThinkingConfig(model: string, models: Model[]): boolean {
+  return !!models.find((item) => item.name === `models/${model}`)?.thinking
+}
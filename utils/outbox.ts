@@ -0,0 +1,71 @@
+import { useOutboxStore } from '@/store/outbox'
+import { OUTBOX_SYNC_TAG, OUTBOX_SYNC_MESSAGE } from '@/constant/outbox'
+import { customAlphabet } from 'nanoid'
+import { partition } from 'lodash-es'
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> }
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+export function isOffline() {
+  return typeof navigator !== 'undefined' && !navigator.onLine
+}
+
+/**
+ * Queue a message written while offline
+ * @param lastMessageId the last message of the conversation, the message is not sent automatically if it changes
+ */
+export function addToOutbox(conversationId: string, content: string, attachments: FileInfor[], lastMessageId?: string) {
+  // The uploads need the network, only the uploaded files and the files read as data urls can be sent later
+  const [kept, dropped] = partition(attachments, (file) => file.status === 'ACTIVE' || !!file.dataUrl)
+  const message: OutboxMessage = {
+    id: nanoid(),
+    conversationId,
+    content,
+    attachments: kept,
+    createdAt: Date.now(),
+    lastMessageId,
+    status: 'pending',
+  }
+  if (dropped.length > 0) message.droppedAttachments = dropped.map((file) => file.name)
+  useOutboxStore.getState().add(message)
+  registerOutboxSync()
+  return message
+}
+
+/**
+ * Find the next message of the conversation that can be sent, the pending messages of a changed conversation are
+ * marked as conflicts and wait for the decision of the user
+ */
+export function getNextOutboxMessage(conversationId: string, lastMessageId?: string): OutboxMessage | undefined {
+  const { messages, updateConversation } = useOutboxStore.getState()
+  const next = messages.find((item) => item.conversationId === conversationId)
+  if (!next || next.status === 'conflict') return
+  if (next.status === 'pending' && next.lastMessageId !== lastMessageId) {
+    updateConversation(conversationId, { status: 'conflict' })
+    return
+  }
+  return next
+}
+
+// The browsers without background sync rely on the online event of the page
+export async function registerOutboxSync() {
+  if (!('serviceWorker' in navigator)) return
+  try {
+    const registration: SyncRegistration = await navigator.serviceWorker.ready
+    if (registration.sync) await registration.sync.register(OUTBOX_SYNC_TAG)
+  } catch (err) {
+    console.warn('Background sync is not available', err)
+  }
+}
+
+export function onOutboxSync(callback: () => void) {
+  if (!('serviceWorker' in navigator)) return () => {}
+  const handleMessage = (ev: MessageEvent) => {
+    if (ev.data?.type === OUTBOX_SYNC_MESSAGE) callback()
+  }
+  navigator.serviceWorker.addEventListener('message', handleMessage)
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+}
@@ -1,6 +1,6 @@
 import { FunctionDeclaration, SchemaType } from '@xiangfa/generative-ai'
 import type { FunctionDeclarationSchema, FunctionDeclarationSchemaProperty, Schema } from '@xiangfa/generative-ai'
-import { entries, values, isString, isArray, isObject } from 'lodash-es'
+import { entries, values, isString, isArray, isObject, isBoolean } from 'lodash-es'
 
 export function findOperationById(plugin: OpenAPIDocument, id: string) {
   for (const [path, operations] of entries(plugin.paths)) {
@@ -12,8 +12,16 @@ export function findOperationById(plugin: OpenAPIDocument, id: string) {
   }
 }
 
-function filterProperties(properties: FunctionDeclarationSchemaProperty) {
+// The api rejects the other formats, e.g. `uri` or `email`
+const supportedFormats: Record<string, string[]> = {
+  string: ['enum', 'date-time'],
+  number: ['float', 'double'],
+  integer: ['int32', 'int64'],
+}
+
+export function filterProperties(properties: FunctionDeclarationSchemaProperty) {
   const schemaProperties: any = { type: SchemaType.OBJECT }
+  let format: string | undefined
   for (const [key, value] of entries(properties)) {
     if (key === 'type') {
       if (isString(value) && values(['string', 'number', 'integer', 'boolean', 'array', 'object']).includes(value)) {
@@ -53,10 +61,22 @@ function filterProperties(properties: FunctionDeclarationSchemaProperty) {
       if (isArray(value) && value.every((item) => isString(item))) {
         schemaProperties.required = value
       }
+    } else if (key === 'format') {
+      if (isString(value)) {
+        format = value
+      }
+    } else if (key === 'nullable') {
+      if (isBoolean(value)) {
+        schemaProperties.nullable = value
+      }
     } else if (key === 'example') {
       schemaProperties.example = value
     }
   }
+  // The format depends on the type, which may come after it
+  if (format && supportedFormats[schemaProperties.type]?.includes(format)) {
+    schemaProperties.format = format
+  }
   return schemaProperties
 }
 
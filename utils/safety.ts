@@ -0,0 +1,30 @@
+// The answers stopped for these reasons are blocked by the safety filters or the content policies
+export const blockedFinishReasons = [
+  'SAFETY',
+  'RECITATION',
+  'LANGUAGE',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+]
+
+/**
+ * The reason why the answer was blocked, the prompt feedback takes precedence over the finish reason
+ */
+export function getBlockReason(message: Pick<Message, 'finishReason' | 'blockReason'>): string | undefined {
+  if (message.blockReason) return message.blockReason
+  if (message.finishReason && blockedFinishReasons.includes(message.finishReason)) return message.finishReason
+}
+
+/**
+ * Only the blocks of the adjustable safety filters can be avoided with a lower threshold
+ */
+export function canRelaxSafety(message: Pick<Message, 'finishReason' | 'blockReason'>): boolean {
+  return getBlockReason(message) === 'SAFETY'
+}
+
+// The negligible ratings are not worth showing
+export function getNotableSafetyRatings(ratings: SafetyRatingResult[] = []): SafetyRatingResult[] {
+  return ratings.filter((item) => item.blocked || item.probability !== 'NEGLIGIBLE')
+}
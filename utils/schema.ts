@@ -0,0 +1,109 @@
+import type { ResponseSchema } from '@xiangfa/generative-ai'
+import YAML from 'yaml'
+import { filterProperties } from '@/utils/plugin'
+import { entries, isArray, isBoolean, isInteger, isNull, isNumber, isPlainObject, isString } from 'lodash-es'
+
+type SchemaNode = {
+  type?: string
+  nullable?: boolean
+  enum?: string[]
+  items?: SchemaNode
+  properties?: Record<string, SchemaNode>
+  required?: string[]
+}
+
+/**
+ * Parse the schema written in the editor, both JSON and YAML are supported.
+ * Only the OpenAPI subset supported by Gemini is kept.
+ * @param content schema source
+ */
+export function parseResponseSchema(content: string): ResponseSchema {
+  const schema = YAML.parse(content)
+  if (!isPlainObject(schema)) {
+    throw new Error('The schema must be an object')
+  }
+  // Allow pasting a whole `components.schemas` entry or a request body with the schema wrapped inside
+  return filterProperties(schema.schema ?? schema)
+}
+
+/**
+ * Parse the model answer, the model sometimes wraps the JSON into a markdown code block
+ * @param content answer text
+ */
+export function parseJSONAnswer(content: string): unknown {
+  const matched = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/.exec(content)
+  return JSON.parse(matched ? matched[1] : content)
+}
+
+function matchType(value: unknown, type?: string) {
+  switch (type) {
+    case 'string':
+      return isString(value)
+    case 'number':
+      return isNumber(value)
+    case 'integer':
+      return isInteger(value)
+    case 'boolean':
+      return isBoolean(value)
+    case 'array':
+      return isArray(value)
+    case 'object':
+      return isPlainObject(value)
+    default:
+      return true
+  }
+}
+
+/**
+ * Validate the value against the schema
+ * @param value parsed answer
+ * @param schema response schema
+ * @param path path of the value, used in the error messages
+ * @returns error messages, empty when the value is valid
+ */
+export function validateSchema(value: unknown, responseSchema: ResponseSchema, path: string = '$'): string[] {
+  const schema = responseSchema as SchemaNode
+  const errors: string[] = []
+  if (isNull(value)) {
+    if (!schema.nullable) errors.push(`${path}: should not be null`)
+    return errors
+  }
+  if (!matchType(value, schema.type)) {
+    errors.push(`${path}: should be ${schema.type}`)
+    return errors
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: should be one of ${schema.enum.join(', ')}`)
+  }
+  if (isArray(value) && schema.items) {
+    value.forEach((item, idx) => {
+      errors.push(...validateSchema(item, schema.items as ResponseSchema, `${path}[${idx}]`))
+    })
+  }
+  if (isPlainObject(value)) {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${path}.${key}: is required`)
+    }
+    for (const [key, property] of entries(schema.properties || {})) {
+      if (key in record) errors.push(...validateSchema(record[key], property as ResponseSchema, `${path}.${key}`))
+    }
+  }
+  return errors
+}
+
+/**
+ * Check whether the answer matches the response schema
+ * @param content answer text
+ * @param schema schema source written in the editor
+ * @returns error messages, empty when the answer is valid
+ */
+export function checkStructuredOutput(content: string, schema: string): string[] {
+  let data: unknown
+  try {
+    data = parseJSONAnswer(content)
+  } catch (err) {
+    return [`Invalid JSON: ${err instanceof Error ? err.message : err}`]
+  }
+  return validateSchema(data, parseResponseSchema(schema))
+}
@@ -0,0 +1,44 @@
+import type { FunctionDeclaration } from '@xiangfa/generative-ai'
+import { pick, pickBy, isEqual, sortBy, uniq, keys } from 'lodash-es'
+
+export const conversationSettingKeys = [
+  'model',
+  'topP',
+  'topK',
+  'temperature',
+  'maxOutputTokens',
+  'safety',
+  'memoryStrategy',
+  'memoryWindow',
+  'userMemory',
+] as const
+
+export function getEnabledPlugins(tools: FunctionDeclaration[]): string[] {
+  return uniq(tools.map((tool) => tool.name.split('__')[0]))
+}
+
+export function getDefaultConversationSetting(
+  setting: Setting,
+  tools: FunctionDeclaration[],
+): Required<ConversationSetting> {
+  return { ...pick(setting, conversationSettingKeys), plugins: getEnabledPlugins(tools) }
+}
+
+/**
+ * Only keep the values that differ from the global settings
+ * @param values conversation settings
+ * @param defaults global settings
+ */
+export function diffConversationSetting(
+  values: ConversationSetting,
+  defaults: Required<ConversationSetting>,
+): ConversationSetting {
+  return pickBy(values, (value, key) => {
+    if (key === 'plugins') return !isEqual(sortBy(value as string[]), sortBy(defaults.plugins))
+    return !isEqual(value, defaults[key as keyof ConversationSetting])
+  })
+}
+
+export function isCustomSetting(values: ConversationSetting = {}, defaults: Required<ConversationSetting>): boolean {
+  return keys(diffConversationSetting(values, defaults)).length > 0
+}
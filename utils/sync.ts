@@ -0,0 +1,310 @@
+import { useSettingStore } from '@/store/setting'
+import { usePluginStore } from '@/store/plugin'
+import { useAssistantStore } from '@/store/assistant'
+import { useConversationStore } from '@/store/conversation'
+import { useMessageStore } from '@/store/chat'
+import { useUsageStore } from '@/store/usage'
+import { useMemoryStore } from '@/store/memory'
+import { useSyncStore, type SyncedState } from '@/store/sync'
+import { WebDAVClient, S3Client, type SyncClient } from '@/utils/SyncClient'
+import { deriveKey, encrypt, decrypt, sha256, randomBytes, toBase64, fromBase64 } from '@/utils/crypto'
+import { syncCurrentConversation, mergeState } from '@/utils/workspace'
+import { customAlphabet } from 'nanoid'
+import { entries, keys, omit, omitBy, pick, union, isFunction, isPlainObject } from 'lodash-es'
+
+interface ManifestEntry {
+  hash: string
+  updatedAt: number
+  // The deleted conversations are kept as tombstones, so that the other devices can delete them too
+  deleted?: boolean
+}
+
+interface SyncManifest {
+  version: number
+  updatedAt: number
+  conversations: Record<string, ManifestEntry>
+  stores: Record<string, ManifestEntry>
+}
+
+interface SyncKeyFile {
+  app: string
+  version: number
+  salt: string
+  check: string
+}
+
+interface SyncedStore {
+  getState: () => Record<string, any>
+  setState: (state: Record<string, any>) => void
+}
+
+export interface SyncResult {
+  pushed: number
+  pulled: number
+  conflicts: number
+}
+
+export const SYNC_APP = 'gemini-next-chat'
+export const SYNC_VERSION = 1
+export const SYNC_CONFLICT_TAG = 'sync-conflict'
+
+export const AUTO_SYNC_INTERVAL = 5 * 60 * 1000
+
+const KEY_FILE = 'keyfile.json'
+const MANIFEST_FILE = 'manifest.enc'
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+let syncTask: Promise<SyncResult> | null = null
+
+function getState<T extends object>(state: T) {
+  return omitBy(state, (item) => isFunction(item))
+}
+
+// The api keys, the access password and the layout states are device-specific and never leave the device
+const syncedStores: Record<string, SyncedStore> = {
+  settingStore: {
+    getState: () => omit(getState(useSettingStore.getState()), ['apiKey', 'password', 'talkMode', 'sidebarState']),
+    setState: (state) => useSettingStore.setState(state),
+  },
+  pluginStore: {
+    getState: () => getState(usePluginStore.getState()),
+    setState: (state) => usePluginStore.setState(state),
+  },
+  assistantStore: {
+    getState: () => pick(useAssistantStore.getState(), ['assistants']),
+    setState: (state) => useAssistantStore.setState(state),
+  },
+  usageStore: {
+    getState: () => getState(useUsageStore.getState()),
+    setState: (state) => useUsageStore.setState(state),
+  },
+  memoryStore: {
+    getState: () => pick(useMemoryStore.getState(), ['memories', 'disabledAssistants']),
+    setState: (state) => useMemoryStore.setState(state),
+  },
+  conversationMeta: {
+    getState: () => pick(useConversationStore.getState(), ['pinned', 'folders']),
+    setState: (state) => useConversationStore.setState(state),
+  },
+}
+
+export function createSyncClient(): SyncClient {
+  const { provider, webdav, s3 } = useSyncStore.getState()
+  if (provider === 'webdav') return new WebDAVClient(webdav)
+  if (provider === 's3') return new S3Client(s3)
+  throw new Error('Sync is not configured')
+}
+
+async function hashOf(data: object) {
+  return await sha256(JSON.stringify(data))
+}
+
+/**
+ * The key file stores the salt of the key derivation and a check value,
+ * which is used to verify the passphrase before anything is written
+ */
+async function getKey(client: SyncClient, passphrase: string) {
+  const data = await client.get(KEY_FILE)
+  if (!data) {
+    const salt = randomBytes(16)
+    const key = await deriveKey(passphrase, salt)
+    const keyFile: SyncKeyFile = {
+      app: SYNC_APP,
+      version: SYNC_VERSION,
+      salt: toBase64(salt),
+      check: toBase64(await encrypt(key, SYNC_APP)),
+    }
+    await client.put(KEY_FILE, new TextEncoder().encode(JSON.stringify(keyFile)).buffer)
+    return key
+  }
+  const keyFile: SyncKeyFile = JSON.parse(new TextDecoder().decode(data))
+  if (!isPlainObject(keyFile) || keyFile.app !== SYNC_APP || !keyFile.salt || !keyFile.check) {
+    throw new Error('Invalid sync key file')
+  }
+  if (keyFile.version > SYNC_VERSION) {
+    throw new Error(`The sync data version ${keyFile.version} is not supported, please update the app`)
+  }
+  const key = await deriveKey(passphrase, fromBase64(keyFile.salt))
+  try {
+    if ((await decrypt(key, fromBase64(keyFile.check).buffer)) === SYNC_APP) return key
+  } catch {}
+  throw new Error('Wrong sync passphrase')
+}
+
+async function runSync(): Promise<SyncResult> {
+  const { passphrase, synced, setSynced } = useSyncStore.getState()
+  if (!passphrase) throw new Error('Missing sync passphrase')
+  const client = createSyncClient()
+  await client.prepare(['conversations', 'stores'])
+  const key = await getKey(client, passphrase)
+
+  const manifestData = await client.get(MANIFEST_FILE)
+  const manifest: SyncManifest = manifestData
+    ? JSON.parse(await decrypt(key, manifestData))
+    : { version: SYNC_VERSION, updatedAt: 0, conversations: {}, stores: {} }
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0 }
+  const newSynced: SyncedState = { conversations: {}, stores: {}, states: {} }
+  // The local changes made by the sync, `null` means the conversation is deleted
+  const changes: Record<string, Conversation | null> = {}
+
+  const download = async (path: string) => {
+    const data = await client.get(path)
+    if (!data) throw new Error(`Missing sync file: ${path}`)
+    return JSON.parse(await decrypt(key, data))
+  }
+  const pushConversation = async (id: string, conversation: Conversation) => {
+    const hash = await hashOf(conversation)
+    await client.put(`conversations/${id}.enc`, await encrypt(key, JSON.stringify(conversation)))
+    manifest.conversations[id] = { hash, updatedAt: conversation.updatedAt || Date.now() }
+    newSynced.conversations[id] = hash
+    result.pushed += 1
+  }
+  const pullConversation = async (id: string) => {
+    const conversation: Conversation = await download(`conversations/${id}.enc`)
+    changes[id] = conversation
+    newSynced.conversations[id] = await hashOf(conversation)
+    result.pulled += 1
+    return conversation
+  }
+  const addConflictCopy = async (conversation: Conversation) => {
+    const newId = nanoid()
+    const copy = { ...conversation, tags: union(conversation.tags || [], [SYNC_CONFLICT_TAG]) }
+    changes[newId] = copy
+    await pushConversation(newId, copy)
+    result.conflicts += 1
+  }
+
+  syncCurrentConversation()
+  const { conversationList, currentId } = useConversationStore.getState()
+  const ids = union(keys(conversationList), keys(manifest.conversations), keys(synced.conversations))
+  for (const id of ids) {
+    const local = conversationList[id]
+    const localHash = local ? await hashOf(local) : undefined
+    const remote = manifest.conversations[id]
+    const remoteHash = remote && !remote.deleted ? remote.hash : undefined
+    const base = synced.conversations[id]
+    if (localHash === remoteHash) {
+      if (localHash) newSynced.conversations[id] = localHash
+      continue
+    }
+    const localChanged = localHash !== base
+    const remoteChanged = remoteHash !== base
+    // A conversation missing from the remote storage without a tombstone is uploaded again
+    if (!remoteChanged || !remote || (localChanged && local && !remoteHash)) {
+      if (local) {
+        await pushConversation(id, local)
+      } else {
+        manifest.conversations[id] = { hash: '', updatedAt: Date.now(), deleted: true }
+        await client.remove(`conversations/${id}.enc`)
+        result.pushed += 1
+      }
+    } else if (!localChanged || !local) {
+      if (remoteHash) {
+        await pullConversation(id)
+      } else if (id === currentId) {
+        // The opened conversation is never removed from under the user, it is uploaded again instead
+        await pushConversation(id, local)
+      } else {
+        changes[id] = null
+        result.pulled += 1
+      }
+    } else if ((local.updatedAt || 0) >= remote.updatedAt) {
+      await addConflictCopy(await download(`conversations/${id}.enc`))
+      await pushConversation(id, local)
+    } else {
+      await addConflictCopy(local)
+      await pullConversation(id)
+    }
+  }
+
+  for (const [name, store] of entries(syncedStores)) {
+    const state = store.getState()
+    const localHash = await hashOf(state)
+    const remote = manifest.stores[name]
+    const base = synced.stores[name]
+    let newState = state
+    if (remote && remote.hash !== localHash && remote.hash !== base) {
+      const remoteState = await download(`stores/${name}.enc`)
+      // The stores have no update time, when both sides have changed they are merged and the local values win,
+      // the state of the last sync keeps the items deleted on either side from coming back
+      newState =
+        localHash === base ? remoteState : { ...state, ...mergeState(state, remoteState, synced.states?.[name]) }
+      store.setState(newState)
+      result.pulled += 1
+    }
+    const newHash = newState === state ? localHash : await hashOf(newState)
+    if (!remote || remote.hash !== newHash) {
+      await client.put(`stores/${name}.enc`, await encrypt(key, JSON.stringify(newState)))
+      manifest.stores[name] = { hash: newHash, updatedAt: Date.now() }
+      result.pushed += 1
+    }
+    newSynced.stores[name] = newHash
+    newSynced.states![name] = newState
+  }
+
+  if (result.pushed > 0) {
+    manifest.updatedAt = Date.now()
+    await client.put(MANIFEST_FILE, await encrypt(key, JSON.stringify(manifest)))
+  }
+
+  if (keys(changes).length > 0) {
+    // The conversations may be changed while syncing, so the changes are applied to the latest list
+    const { conversationList: latestList, pinned, currentId: latestId, restore } = useConversationStore.getState()
+    const newList = { ...latestList }
+    for (const [id, conversation] of entries(changes)) {
+      if (conversation) {
+        newList[id] = conversation
+      } else {
+        delete newList[id]
+      }
+    }
+    restore({ conversationList: newList, pinned: pinned.filter((id) => newList[id]) })
+    if (changes[latestId]) useMessageStore.getState().restore(changes[latestId] as Conversation)
+  }
+  setSynced(newSynced, Date.now())
+  return result
+}
+
+/**
+ * Sync the workspace with the remote storage. Each conversation is compared with the hash of the last sync,
+ * so only the changed conversations are transferred. When both sides have changed, the last writer wins
+ * and the other version is kept as a conflict copy.
+ */
+export async function syncWorkspace(): Promise<SyncResult> {
+  // The auto sync and the manual sync share the same running task
+  if (!syncTask) {
+    syncTask = runSync().finally(() => {
+      syncTask = null
+    })
+  }
+  return await syncTask
+}
+
+function waitForHydration(store: {
+  persist: { hasHydrated: () => boolean; onFinishHydration: (fn: () => void) => () => void }
+}) {
+  return new Promise<void>((resolve) => {
+    if (store.persist.hasHydrated()) return resolve()
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe()
+      resolve()
+    })
+  })
+}
+
+// The stores are loaded asynchronously from the local storage, the sync must wait until all of them are loaded
+export async function waitForSyncReady() {
+  await Promise.all(
+    [
+      useSyncStore,
+      useSettingStore,
+      usePluginStore,
+      useAssistantStore,
+      useUsageStore,
+      useMemoryStore,
+      useConversationStore,
+      useMessageStore,
+    ].map((store) => waitForHydration(store)),
+  )
+}
@@ -0,0 +1,141 @@
+import type { Part } from '@xiangfa/generative-ai'
+
+// Used when the model metadata has not been loaded yet
+export const DEFAULT_INPUT_TOKEN_LIMIT = 1048576
+
+// Fixed cost of an image, see https://ai.google.dev/gemini-api/docs/tokens
+const IMAGE_TOKENS = 258
+const AUDIO_TOKENS_PER_SECOND = 32
+const VIDEO_TOKENS_PER_SECOND = 263
+// Rough bitrates used to guess the duration of media files from their size
+const AUDIO_BYTES_PER_SECOND = 16000
+const VIDEO_BYTES_PER_SECOND = 250000
+const PDF_BYTES_PER_PAGE = 100000
+
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/g
+
+/**
+ * Tokens that the history may use
+ * @param inputTokenLimit input token limit of the model
+ * @param ratio percentage of the input token limit
+ */
+export function getTokenBudget(inputTokenLimit: number = DEFAULT_INPUT_TOKEN_LIMIT, ratio: number = 100): number {
+  return Math.floor((inputTokenLimit * ratio) / 100)
+}
+
+/**
+ * Local token estimator, about 4 characters per token for latin text and one token per CJK character
+ * @param text text content
+ */
+export function estimateTokens(text: string = ''): number {
+  if (text === '') return 0
+  const cjkCount = (text.match(CJK_REGEX) || []).length
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4)
+}
+
+/**
+ * Keep the end of the text within the token budget
+ * @param text text content
+ * @param maxTokens max tokens of the text
+ */
+export function truncateText(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text
+  let start = 0
+  let end = text.length
+  // Binary search the start position, the estimator is not linear because of CJK characters
+  while (start < end) {
+    const middle = Math.floor((start + end) / 2)
+    if (estimateTokens(text.slice(middle)) > maxTokens) {
+      start = middle + 1
+    } else {
+      end = middle
+    }
+  }
+  return text.slice(start)
+}
+
+export function formatTokenCount(count: number): string {
+  if (count >= 1000000) return `${Number((count / 1000000).toFixed(1))}M`
+  if (count >= 1000) return `${Number((count / 1000).toFixed(1))}k`
+  return `${count}`
+}
+
+export function estimateMediaTokens(mimeType: string, size: number = 0): number {
+  if (mimeType.startsWith('image/')) {
+    return IMAGE_TOKENS
+  } else if (mimeType.startsWith('audio/')) {
+    return Math.ceil(size / AUDIO_BYTES_PER_SECOND) * AUDIO_TOKENS_PER_SECOND
+  } else if (mimeType.startsWith('video/')) {
+    return Math.ceil(size / VIDEO_BYTES_PER_SECOND) * (VIDEO_TOKENS_PER_SECOND + AUDIO_TOKENS_PER_SECOND)
+  } else if (mimeType === 'application/pdf') {
+    return Math.max(1, Math.ceil(size / PDF_BYTES_PER_PAGE)) * IMAGE_TOKENS
+  } else {
+    // Plain text documents
+    return Math.ceil(size / 4)
+  }
+}
+
+export function estimatePartTokens(part: Part, attachments: FileInfor[] = []): number {
+  if (part.text) {
+    return estimateTokens(part.text)
+  } else if (part.inlineData) {
+    // The base64 data is about 4/3 of the original size
+    return estimateMediaTokens(part.inlineData.mimeType, Math.floor((part.inlineData.data.length * 3) / 4))
+  } else if (part.fileData) {
+    const { fileUri, mimeType } = part.fileData
+    const attachment = attachments.find((item) => item.metadata?.uri === fileUri)
+    return estimateMediaTokens(mimeType, attachment?.size)
+  } else if (part.functionCall) {
+    return estimateTokens(JSON.stringify(part.functionCall))
+  } else if (part.functionResponse) {
+    return estimateTokens(JSON.stringify(part.functionResponse))
+  }
+  return 0
+}
+
+export function estimateMessageTokens(message: Message): number {
+  return message.parts.reduce((total, part) => total + estimatePartTokens(part, message.attachments), 0)
+}
+
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0)
+}
+
+function isMediaPart(part: Part) {
+  return !!(part.inlineData || part.fileData)
+}
+
+// The history must start with a user message, a history starting with an answer or a function response is rejected
+function startWithUserTurn(messages: Message[]) {
+  const index = messages.findIndex((message) => message.role === 'user')
+  return index > 0 ? messages.slice(index) : messages
+}
+
+/**
+ * Trim the history to the token budget.
+ * Attachments of the earlier messages are dropped first, then the earliest messages.
+ * The last message is always kept.
+ * @param messages message list
+ * @param budget max tokens of the history
+ */
+export function trimMessages(messages: Message[], budget: number): Message[] {
+  let total = estimateMessagesTokens(messages)
+  if (total <= budget || messages.length === 0) return startWithUserTurn(messages)
+
+  const trimmedMessages = [...messages]
+  for (let i = 0; i < trimmedMessages.length - 1 && total > budget; i++) {
+    const message = trimmedMessages[i]
+    if (message.parts.some(isMediaPart)) {
+      const parts = message.parts.filter((part) => !isMediaPart(part))
+      total -= estimateMessageTokens(message)
+      trimmedMessages[i] = { ...message, parts: parts.length > 0 ? parts : [{ text: '[attachment omitted]' }] }
+      total += estimateMessageTokens(trimmedMessages[i])
+    }
+  }
+
+  while (trimmedMessages.length > 1 && total > budget) {
+    const message = trimmedMessages.shift() as Message
+    total -= estimateMessageTokens(message)
+  }
+  return startWithUserTurn(trimmedMessages)
+}
@@ -0,0 +1,119 @@
+import { useConversationStore } from '@/store/conversation'
+import { useMessageStore } from '@/store/chat'
+import { useTrashStore } from '@/store/trash'
+import { customAlphabet } from 'nanoid'
+import { findIndex, omit } from 'lodash-es'
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+/**
+ * Move the conversations to the trash, the current conversation is switched to the default one
+ */
+export function trashConversations(ids: string[]): TrashItem[] {
+  const { currentId, pinned, query, addOrUpdate, setCurrentId, remove } = useConversationStore.getState()
+  const { backup, restore } = useMessageStore.getState()
+  const { add } = useTrashStore.getState()
+  if (ids.includes(currentId)) {
+    addOrUpdate(currentId, backup())
+    setCurrentId('default')
+    restore(query('default'))
+  }
+  const items: TrashItem[] = []
+  for (const id of ids) {
+    const conversation = query(id)
+    if (!conversation) continue
+    const item: TrashItem = {
+      id: nanoid(),
+      type: 'conversation',
+      conversationId: id,
+      deletedAt: Date.now(),
+      conversation,
+      pinned: pinned.includes(id),
+    }
+    add(item)
+    items.push(item)
+    remove(id)
+  }
+  return items
+}
+
+/**
+ * Move the cleared messages of the current conversation to the trash
+ */
+export function trashClearedConversation(conversation: Conversation): TrashItem {
+  const { currentId, query } = useConversationStore.getState()
+  const item: TrashItem = {
+    id: nanoid(),
+    type: 'conversation',
+    conversationId: currentId,
+    deletedAt: Date.now(),
+    conversation: { ...omit(query(currentId), ['updatedAt']), ...conversation },
+  }
+  useTrashStore.getState().add(item)
+  return item
+}
+
+export function trashMessage(id: string): TrashItem | undefined {
+  const { currentId } = useConversationStore.getState()
+  const { messages, remove } = useMessageStore.getState()
+  const index = findIndex(messages, { id })
+  if (index === -1) return
+  const item: TrashItem = {
+    id: nanoid(),
+    type: 'message',
+    conversationId: currentId,
+    deletedAt: Date.now(),
+    message: messages[index],
+    index,
+  }
+  useTrashStore.getState().add(item)
+  remove(id)
+  return item
+}
+
+function restoreConversation(item: TrashItem) {
+  const { currentId, conversationList, pinned, folders, addOrUpdate, pin } = useConversationStore.getState()
+  const { messages, restore } = useMessageStore.getState()
+  if (!item.conversation) return false
+  const conversation = { ...item.conversation }
+  if (conversation.folderId && !folders.some((folder) => folder.id === conversation.folderId)) {
+    delete conversation.folderId
+  }
+  const target = conversationList[item.conversationId]
+  const isEmpty = item.conversationId === currentId ? messages.length === 0 : target?.messages.length === 0
+  // The conversation is restored in place when its id is free or it has been cleared, otherwise as a copy
+  const id = !target || isEmpty ? item.conversationId : nanoid()
+  addOrUpdate(id, conversation)
+  if (id === currentId) restore(conversation)
+  if (item.pinned && !pinned.includes(id)) pin(id)
+  return true
+}
+
+function restoreMessage(item: TrashItem) {
+  const { currentId, query, addOrUpdate } = useConversationStore.getState()
+  const { messages, insert } = useMessageStore.getState()
+  if (!item.message) return false
+  if (item.conversationId === currentId) {
+    if (messages.some((message) => message.id === item.message?.id)) return true
+    insert(Math.min(item.index || 0, messages.length), item.message)
+    return true
+  }
+  const conversation = query(item.conversationId)
+  if (!conversation) return false
+  const newMessages = [...conversation.messages]
+  newMessages.splice(Math.min(item.index || 0, newMessages.length), 0, item.message)
+  addOrUpdate(item.conversationId, { ...conversation, messages: newMessages })
+  return true
+}
+
+/**
+ * Restore the items from the trash, a message can not be restored once its conversation is gone
+ * @returns the restored items
+ */
+export function restoreTrashItems(items: TrashItem[]): TrashItem[] {
+  const restored = items.filter((item) =>
+    item.type === 'conversation' ? restoreConversation(item) : restoreMessage(item),
+  )
+  useTrashStore.getState().remove(restored.map((item) => item.id))
+  return restored
+}
@@ -0,0 +1,134 @@
+import type { UsageMetadata } from '@xiangfa/generative-ai'
+import dayjs from 'dayjs'
+import { entries, keys } from 'lodash-es'
+
+export type UsageGroup = 'conversation' | 'model' | 'apiKey' | 'day'
+
+export interface UsageSummary extends MessageUsage {
+  key: string
+  answers: number
+  cost: number
+}
+
+/**
+ * Only the tail of the key is kept, the usage is stored in the conversations and may leave the device
+ * @param apiKey the api key used by the request
+ */
+export function getApiKeyLabel(apiKey: string = ''): string | undefined {
+  if (apiKey === '') return
+  return `••••${apiKey.slice(-4)}`
+}
+
+/**
+ * The usage metadata of each streamed chunk is cumulative, so the last one is the usage of the request
+ * @param usageMetadata usage metadata of the chunk
+ * @param apiKey the api key used by the request
+ */
+export function parseUsageMetadata(
+  usageMetadata: UsageMetadata & { thoughtsTokenCount?: number },
+  apiKey?: string,
+): MessageUsage {
+  const usage: MessageUsage = {
+    promptTokens: usageMetadata.promptTokenCount || 0,
+    candidatesTokens: usageMetadata.candidatesTokenCount || 0,
+    cachedTokens: usageMetadata.cachedContentTokenCount || 0,
+    thoughtsTokens: usageMetadata.thoughtsTokenCount || 0,
+    totalTokens: usageMetadata.totalTokenCount || 0,
+  }
+  const label = getApiKeyLabel(apiKey)
+  if (label) usage.apiKey = label
+  return usage
+}
+
+/**
+ * Add up the usage of several requests, e.g. an answer and its continuations
+ */
+export function mergeUsage(usage: MessageUsage | undefined, other: MessageUsage): MessageUsage {
+  if (!usage) return other
+  return {
+    ...usage,
+    promptTokens: usage.promptTokens + other.promptTokens,
+    candidatesTokens: usage.candidatesTokens + other.candidatesTokens,
+    cachedTokens: usage.cachedTokens + other.cachedTokens,
+    thoughtsTokens: usage.thoughtsTokens + other.thoughtsTokens,
+    totalTokens: usage.totalTokens + other.totalTokens,
+  }
+}
+
+/**
+ * Find the price of the model, the versioned models use the price of their base model
+ * @param model model name
+ * @param prices price table
+ */
+export function getModelPrice(model: string = '', prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (prices[model]) return prices[model]
+  const name = keys(prices)
+    .filter((item) => model.startsWith(item))
+    .sort((a, b) => b.length - a.length)[0]
+  return name ? prices[name] : undefined
+}
+
+/**
+ * Estimated cost in USD, the thinking tokens are billed as output tokens
+ */
+export function estimateCost(usage: MessageUsage, price?: ModelPrice): number {
+  if (!price) return 0
+  const cachedTokens = Math.min(usage.cachedTokens, usage.promptTokens)
+  return (
+    ((usage.promptTokens - cachedTokens) * price.input +
+      cachedTokens * price.cached +
+      (usage.candidatesTokens + usage.thoughtsTokens) * price.output) /
+    1000000
+  )
+}
+
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+function getGroupKey(group: UsageGroup, conversationId: string, message: Message) {
+  if (group === 'conversation') return conversationId
+  if (group === 'model') return message.model || ''
+  if (group === 'apiKey') return message.usage?.apiKey || ''
+  return dayjs(message.createdAt).format('YYYY-MM-DD')
+}
+
+/**
+ * Aggregate the usage of all the messages in the conversations
+ * @param conversationList conversations indexed by id
+ * @param group how the usage is grouped
+ * @param prices price table
+ */
+export function summarizeUsage(
+  conversationList: Record<string, Conversation>,
+  group: UsageGroup,
+  prices: Record<string, ModelPrice>,
+): UsageSummary[] {
+  const summaries: Record<string, UsageSummary> = {}
+  for (const [id, conversation] of entries(conversationList)) {
+    for (const message of conversation.messages) {
+      const { usage } = message
+      if (!usage) continue
+      const key = getGroupKey(group, id, message)
+      const summary = summaries[key] || {
+        key,
+        answers: 0,
+        promptTokens: 0,
+        candidatesTokens: 0,
+        cachedTokens: 0,
+        thoughtsTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+      }
+      summaries[key] = {
+        ...mergeUsage(summary, usage),
+        key,
+        answers: summary.answers + 1,
+        cost: summary.cost + estimateCost(usage, getModelPrice(message.model, prices)),
+      }
+    }
+  }
+  const list = Object.values(summaries)
+  return group === 'day' ? list.sort((a, b) => b.key.localeCompare(a.key)) : list.sort((a, b) => b.cost - a.cost)
+}
@@ -0,0 +1,62 @@
+import { useSettingStore } from '@/store/setting'
+import { useConversationStore } from '@/store/conversation'
+import { useMessageStore } from '@/store/chat'
+import { useMemoryStore, createMemory } from '@/store/memory'
+import extractMemories, { type RequestProps } from '@/utils/extractMemories'
+import { getUserMemoryPrompt } from '@/utils/prompt'
+import { encodeToken } from '@/utils/signature'
+import { GEMINI_API_BASE_URL } from '@/constant/urls'
+
+// Number of new messages before the conversation is scanned for facts again
+const SCAN_INTERVAL = 6
+
+/**
+ * The memories can be turned off per conversation with the conversation setting, or per assistant
+ * @param enabled the user memory setting of the conversation
+ */
+export function isUserMemoryActive(enabled: boolean): boolean {
+  if (!enabled) return false
+  const { assistant } = useMessageStore.getState()
+  const { disabledAssistants } = useMemoryStore.getState()
+  return !assistant || !disabledAssistants.includes(assistant)
+}
+
+export function getUserMemoryInstruction(): string {
+  const memories = useMemoryStore.getState().memories.filter((item) => item.enabled)
+  if (memories.length === 0) return ''
+  return getUserMemoryPrompt(memories.map((item) => item.content))
+}
+
+/**
+ * Ask the model for the new facts in the current conversation, they are kept as candidates until confirmed
+ * @param force scan the conversation even if there are only a few new messages
+ * @returns number of the new candidates
+ */
+export async function scanUserMemories(force = false): Promise<number> {
+  const { apiKey, apiProxy, password } = useSettingStore.getState()
+  const { currentId } = useConversationStore.getState()
+  const { messages } = useMessageStore.getState()
+  const { memories, candidates, scanned } = useMemoryStore.getState()
+  // The conversation has been cleared or trimmed since the last scan
+  const offset = (scanned[currentId] || 0) > messages.length ? 0 : scanned[currentId] || 0
+  const newMessages = messages.slice(offset)
+  if (newMessages.length === 0 || (!force && newMessages.length < SCAN_INTERVAL)) return 0
+
+  const config: RequestProps = {
+    apiKey,
+    messages: newMessages,
+    memories: [...memories, ...candidates].map((item) => item.content),
+  }
+  if (apiKey !== '') {
+    config.baseUrl = apiProxy || GEMINI_API_BASE_URL
+  } else {
+    config.apiKey = encodeToken(password)
+    config.baseUrl = '/api/google'
+  }
+  const facts = await extractMemories(config)
+  const { setScanned, setCandidates } = useMemoryStore.getState()
+  setScanned(currentId, messages.length)
+  if (facts.length === 0) return 0
+  setCandidates([...useMemoryStore.getState().candidates, ...facts.map((fact) => createMemory(fact, currentId))])
+  return facts.length
+}
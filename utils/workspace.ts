@@ -0,0 +1,335 @@
+import { useSettingStore } from '@/store/setting'
+import { useModelStore } from '@/store/model'
+import { usePluginStore } from '@/store/plugin'
+import { useAssistantStore } from '@/store/assistant'
+import { useMultimodalLiveStore } from '@/store/multimodal'
+import { useConversationStore } from '@/store/conversation'
+import { useMessageStore } from '@/store/chat'
+import { useUsageStore } from '@/store/usage'
+import { useMemoryStore } from '@/store/memory'
+import { useTrashStore } from '@/store/trash'
+import { useKnowledgeStore } from '@/store/knowledge'
+import { useOutboxStore } from '@/store/outbox'
+import { useSyncStore } from '@/store/sync'
+import storage from '@/utils/Storage'
+import { getKnowledgeStorageKeys } from '@/utils/knowledge'
+import { customAlphabet } from 'nanoid'
+import {
+  entries,
+  keys,
+  omit,
+  omitBy,
+  isFunction,
+  isArray,
+  isPlainObject,
+  isNumber,
+  isUndefined,
+  isNull,
+  isEqual,
+  union,
+  unionBy,
+} from 'lodash-es'
+
+type StoreName =
+  | 'settingStore'
+  | 'modelStore'
+  | 'pluginStore'
+  | 'assistantStore'
+  | 'multimodalLiveStore'
+  | 'conversationStore'
+  | 'usageStore'
+  | 'memoryStore'
+  | 'trashStore'
+  | 'knowledgeStore'
+  | 'outboxStore'
+  | 'syncStore'
+
+interface PersistedStore {
+  getState: () => object
+  setState: (state: any) => void
+  persist: {
+    getOptions: () => { version?: number; migrate?: (state: any, version: number) => unknown }
+  }
+}
+
+export interface WorkspaceBackup {
+  app: string
+  version: number
+  createdAt: string
+  excludeApiKeys: boolean
+  stores: Partial<Record<StoreName, { version: number; state: Record<string, any> }>>
+  // The parsed texts and the vectors of the knowledge files, by storage key
+  knowledge?: Record<string, unknown>
+}
+
+export type RestoreMode = 'merge' | 'replace'
+
+// How to handle a conversation that exists in both the workspace and the backup with different contents
+export type ConflictResolution = 'local' | 'backup' | 'both'
+
+export interface ConversationConflict {
+  id: string
+  localTitle: string
+  backupTitle: string
+}
+
+export interface RestoreResult {
+  added: string[]
+  updated: string[]
+  skipped: string[]
+}
+
+export const WORKSPACE_BACKUP_APP = 'gemini-next-chat'
+export const WORKSPACE_BACKUP_VERSION = 1
+
+// The chat store only holds the current conversation, which is synced to the conversation store before the backup
+const workspaceStores: Record<StoreName, PersistedStore> = {
+  settingStore: useSettingStore,
+  modelStore: useModelStore,
+  pluginStore: usePluginStore,
+  assistantStore: useAssistantStore,
+  multimodalLiveStore: useMultimodalLiveStore,
+  conversationStore: useConversationStore,
+  usageStore: useUsageStore,
+  memoryStore: useMemoryStore,
+  trashStore: useTrashStore,
+  knowledgeStore: useKnowledgeStore,
+  outboxStore: useOutboxStore,
+  syncStore: useSyncStore,
+}
+
+const sensitiveKeys: Partial<Record<StoreName, string[]>> = {
+  settingStore: ['apiKey', 'password'],
+  multimodalLiveStore: ['apiKey'],
+  syncStore: ['webdav.password', 's3.accessKeyId', 's3.secretAccessKey', 'passphrase'],
+}
+
+// The sync state only describes the remote copy of this device, it is never backed up
+const localKeys: Partial<Record<StoreName, string[]>> = {
+  syncStore: ['synced', 'lastSyncTime'],
+}
+
+// List items are merged by these keys, the local item wins
+const identityKeys: Record<string, string> = {
+  plugins: 'name_for_model',
+  tools: 'name',
+  assistants: 'identifier',
+  recommendation: 'identifier',
+  models: 'name',
+  folders: 'id',
+  memories: 'id',
+  candidates: 'id',
+  items: 'id',
+  knowledgeBases: 'id',
+  messages: 'id',
+}
+
+const nanoid = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 12)
+
+export function syncCurrentConversation() {
+  const { currentId, addOrUpdate } = useConversationStore.getState()
+  const { backup } = useMessageStore.getState()
+  addOrUpdate(currentId, backup())
+}
+
+/**
+ * The ids of the base that are missing from either side, they have been deleted since then
+ */
+function getDeletedIds(localIds: unknown[], backupIds: unknown[], baseIds: unknown[]) {
+  return new Set(baseIds.filter((id) => !localIds.includes(id) || !backupIds.includes(id)))
+}
+
+/**
+ * Merge the backup state into the local state, the local values take precedence
+ * and only the empty local values are filled from the backup.
+ * With the base state both sides come from, the items deleted on either side are not brought back.
+ */
+export function mergeState(local: Record<string, any>, backup: Record<string, any>, base?: Record<string, any>) {
+  const state: Record<string, any> = {}
+  for (const [key, value] of entries(backup)) {
+    const localValue = local[key]
+    const baseValue = base?.[key]
+    if (isArray(localValue) && isArray(value)) {
+      const identity = identityKeys[key]
+      const merged = identity ? unionBy(localValue, value, identity) : union(localValue, value)
+      if (isArray(baseValue)) {
+        const getId = (item: any) => (identity ? item?.[identity] : item)
+        const deleted = getDeletedIds(localValue.map(getId), value.map(getId), baseValue.map(getId))
+        state[key] = merged.filter((item) => !deleted.has(getId(item)))
+      } else {
+        state[key] = merged
+      }
+    } else if (isPlainObject(localValue) && isPlainObject(value)) {
+      const merged = { ...value, ...localValue }
+      state[key] = isPlainObject(baseValue)
+        ? omit(merged, Array.from(getDeletedIds(keys(localValue), keys(value), keys(baseValue))) as string[])
+        : merged
+    } else if (isUndefined(localValue) || localValue === '') {
+      state[key] = value
+    }
+  }
+  return state
+}
+
+export async function createBackup(excludeApiKeys: boolean): Promise<WorkspaceBackup> {
+  syncCurrentConversation()
+  const stores: WorkspaceBackup['stores'] = {}
+  for (const [name, store] of entries(workspaceStores)) {
+    const storeName = name as StoreName
+    let state = omit(
+      omitBy(store.getState(), (item) => isFunction(item)),
+      localKeys[storeName] || [],
+    )
+    if (excludeApiKeys) state = omit(state, sensitiveKeys[storeName] || [])
+    stores[storeName] = { version: store.persist.getOptions().version || 0, state }
+  }
+  const knowledge: Record<string, unknown> = {}
+  for (const key of getKnowledgeStorageKeys(useKnowledgeStore.getState().knowledgeBases)) {
+    const value = await storage.getItem(key)
+    if (!isNull(value)) knowledge[key] = value
+  }
+  return {
+    app: WORKSPACE_BACKUP_APP,
+    version: WORKSPACE_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    excludeApiKeys,
+    stores,
+    knowledge,
+  }
+}
+
+export function parseBackup(content: string): WorkspaceBackup {
+  const data = JSON.parse(content)
+  if (
+    !isPlainObject(data) ||
+    data.app !== WORKSPACE_BACKUP_APP ||
+    !isNumber(data.version) ||
+    !isPlainObject(data.stores)
+  ) {
+    throw new Error('Invalid backup file')
+  }
+  if (data.version > WORKSPACE_BACKUP_VERSION) {
+    throw new Error(`The backup file version ${data.version} is not supported, please update the app`)
+  }
+  for (const [name, store] of entries(data.stores as WorkspaceBackup['stores'])) {
+    if (store && workspaceStores[name as StoreName]) checkStoreVersion(name as StoreName, store.version)
+  }
+  return data as WorkspaceBackup
+}
+
+/**
+ * Bring the backed up state to the current version of the store with the migration of the store,
+ * the states of a newer version or without a migration can not be restored
+ */
+function checkStoreVersion(storeName: StoreName, backupVersion: number) {
+  const { version = 0, migrate } = workspaceStores[storeName].persist.getOptions()
+  if (backupVersion > version || (backupVersion < version && !migrate)) {
+    throw new Error(`The backup of ${storeName} has an unsupported version ${backupVersion}`)
+  }
+}
+
+async function migrateState(storeName: StoreName, data: { version: number; state: Record<string, any> }) {
+  checkStoreVersion(storeName, data.version)
+  const { version = 0, migrate } = workspaceStores[storeName].persist.getOptions()
+  if (data.version === version || !migrate) return data.state
+  return (await migrate(data.state, data.version)) as Record<string, any>
+}
+
+export function getConversationConflicts(backup: WorkspaceBackup): ConversationConflict[] {
+  syncCurrentConversation()
+  const { conversationList } = useConversationStore.getState()
+  const backupList: Record<string, Conversation> = backup.stores.conversationStore?.state.conversationList || {}
+  return keys(backupList)
+    .filter((id) => conversationList[id] && !isEqual(conversationList[id], backupList[id]))
+    .map((id) => ({ id, localTitle: conversationList[id].title, backupTitle: backupList[id].title }))
+}
+
+/**
+ * Restore the workspace from the backup
+ * @param backup backup data
+ * @param mode `replace` overwrites the local data, `merge` only adds the missing data
+ * @param resolution how to handle the conflicting conversations when merging
+ */
+export async function restoreBackup(
+  backup: WorkspaceBackup,
+  mode: RestoreMode,
+  resolution: ConflictResolution = 'local',
+): Promise<RestoreResult> {
+  syncCurrentConversation()
+  const result: RestoreResult = { added: [], updated: [], skipped: [] }
+  // All the states are migrated before anything is written, so an unsupported backup changes nothing
+  const states: Partial<Record<StoreName, Record<string, any>>> = {}
+  for (const [name, data] of entries(backup.stores)) {
+    const storeName = name as StoreName
+    if (!data || !workspaceStores[storeName]) continue
+    states[storeName] = await migrateState(storeName, data)
+  }
+  for (const [name, data] of entries(states)) {
+    const storeName = name as StoreName
+    if (!data || storeName === 'conversationStore') continue
+    const store = workspaceStores[storeName]
+    const state = omit(data, localKeys[storeName] || [])
+    // The keys excluded from the backup are kept as is, because setState only updates the given keys
+    store.setState(mode === 'replace' ? state : mergeState(store.getState(), state))
+  }
+  for (const [key, value] of entries(backup.knowledge || {})) {
+    if (mode === 'replace' || isNull(await storage.getItem(key))) await storage.setItem(key, value)
+  }
+
+  const conversationData = states.conversationStore
+  if (!conversationData) return result
+  const { conversationList, pinned, folders, currentId, restore } = useConversationStore.getState()
+  const backupList: Record<string, Conversation> = conversationData.conversationList || {}
+  if (mode === 'replace') {
+    for (const id of keys(backupList)) {
+      if (conversationList[id]) {
+        result.updated.push(id)
+      } else {
+        result.added.push(id)
+      }
+    }
+    const newCurrentId = conversationData.currentId || 'default'
+    restore({
+      conversationList: backupList,
+      pinned: conversationData.pinned || [],
+      folders: conversationData.folders || [],
+      currentId: newCurrentId,
+    })
+    const { restore: restoreMessages, chatLayout } = useMessageStore.getState()
+    // The backup may have no current conversation, the old messages must not stay under the new id
+    restoreMessages(
+      backupList[newCurrentId] || {
+        title: '',
+        messages: [],
+        summary: { ids: [], content: '' },
+        systemInstruction: '',
+        chatLayout,
+      },
+    )
+    return result
+  }
+
+  const newList = { ...conversationList }
+  for (const [id, conversation] of entries(backupList)) {
+    if (!newList[id]) {
+      newList[id] = conversation
+      result.added.push(id)
+    } else if (isEqual(newList[id], conversation) || resolution === 'local') {
+      result.skipped.push(id)
+    } else if (resolution === 'backup') {
+      newList[id] = conversation
+      result.updated.push(id)
+    } else {
+      const newId = nanoid()
+      newList[newId] = conversation
+      result.added.push(newId)
+    }
+  }
+  restore({
+    conversationList: newList,
+    pinned: union(pinned, conversationData.pinned || []).filter((id) => newList[id]),
+    folders: unionBy(folders, conversationData.folders || [], 'id'),
+  })
+  if (result.updated.includes(currentId)) useMessageStore.getState().restore(newList[currentId])
+  return result
+}